@@ -1,41 +1,32 @@
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { Login } from "@/Features/Login";
+import { Register } from "@/Features/Register";
+import { ForgotPassword, ResetPassword } from "@/Features/PasswordReset";
 import { Dashboard } from "@/Features/Dashboard";
-
-function PrivateRoute({ children }: { children: React.ReactNode }) {
-  const token = localStorage.getItem("access_token");
-  return token ? <>{children}</> : <Navigate to="/login" replace />;
-}
+import { SessionProvider } from "@/lib/session/SessionProvider";
+import { PrivateRoute } from "@/lib/session/RouteGuards";
 
 export function App() {
-  const handleLogout = () => {
-    localStorage.removeItem("access_token");
-    localStorage.removeItem("refresh_token");
-    localStorage.removeItem("token_type");
-    localStorage.removeItem("expires_in");
-    localStorage.removeItem("refresh_expires_in");
-    localStorage.removeItem("token_timestamp");
-    localStorage.removeItem("userEmail");
-    localStorage.removeItem("userId");
-    localStorage.removeItem("userData");
-    sessionStorage.removeItem("userPassword");
-  };
-
   return (
-    <BrowserRouter>
-      <Routes>
-        <Route path="/login" element={<Login />} />
-        <Route
-          path="/dashboard/*"
-          element={
-            <PrivateRoute>
-              <Dashboard onLogout={handleLogout} />
-            </PrivateRoute>
-          }
-        />
-        <Route path="/" element={<Navigate to="/dashboard" replace />} />
-      </Routes>
-    </BrowserRouter>
+    <SessionProvider>
+      <BrowserRouter>
+        <Routes>
+          <Route path="/login" element={<Login />} />
+          <Route path="/register" element={<Register />} />
+          <Route path="/forgot-password" element={<ForgotPassword />} />
+          <Route path="/reset-password" element={<ResetPassword />} />
+          <Route
+            path="/dashboard/*"
+            element={
+              <PrivateRoute>
+                <Dashboard />
+              </PrivateRoute>
+            }
+          />
+          <Route path="/" element={<Navigate to="/dashboard" replace />} />
+        </Routes>
+      </BrowserRouter>
+    </SessionProvider>
   );
 }
 
@@ -10,7 +10,9 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import type { SubscriptionPlan } from "@/lib/api/endpoints";
-import { getSubscriptionPlanEndpoint, createSubscriptionCheckoutEndpoint, ApiError } from "@/lib/api/endpoints";
+import { getSubscriptionPlanEndpoint, createSubscriptionCheckoutEndpoint } from "@/lib/api/endpoints";
+import { invalidateUserProfile } from "@/lib/api/queries";
+import { describeApiError } from "@/lib/api/errorMessages";
 
 // Razorpay types
 interface RazorpayPaymentResponse {
@@ -109,26 +111,7 @@ export function CustomSubscription() {
       }
     } catch (error) {
       console.error("Error fetching subscription plan:", error);
-      let errorMessage = "Failed to fetch subscription plan";
-      if (error instanceof ApiError) {
-        errorMessage = error.message;
-        // Handle specific error cases
-        const status = error.status;
-        if (status !== undefined) {
-          if (status === 401) {
-            errorMessage = "Session expired. Please refresh the page.";
-          } else if (status === 0) {
-            errorMessage = "Network error: Unable to connect to the server. Please check your internet connection.";
-          } else if (status === 404) {
-            errorMessage = "Subscription plan not found.";
-          } else if (status >= 500) {
-            errorMessage = "Server error. Please try again later.";
-          }
-        }
-      } else if (error instanceof Error) {
-        errorMessage = error.message;
-      }
-      setPlanError(errorMessage);
+      setPlanError(describeApiError(error, "subscription").message);
       setIsSubscriptionDialogOpen(true);
     } finally {
       setIsLoadingPlan(false);
@@ -182,6 +165,8 @@ export function CustomSubscription() {
             setIsProcessingCheckout(false);
             setPaymentSuccessMessage("Payment successful! Your subscription has been activated.");
             setIsPaymentSuccess(true);
+            // Credits changed - reload the sidebar credit meter
+            invalidateUserProfile();
             // Redirect to dashboard after showing success message
             setTimeout(() => {
               navigate("/dashboard");
@@ -219,28 +204,7 @@ export function CustomSubscription() {
       }
     } catch (error) {
       console.error("Error creating checkout:", error);
-      let errorMessage = "Failed to create checkout";
-      if (error instanceof ApiError) {
-        errorMessage = error.message;
-        // Handle specific error cases
-        const status = error.status;
-        if (status !== undefined) {
-          if (status === 401) {
-            errorMessage = "Session expired. Please refresh the page.";
-          } else if (status === 0) {
-            errorMessage = "Network error: Unable to connect to the server. Please check your internet connection.";
-          } else if (status === 400) {
-            errorMessage = "Invalid request. Please check your subscription plan selection.";
-          } else if (status === 404) {
-            errorMessage = "Subscription plan not found.";
-          } else if (status >= 500) {
-            errorMessage = "Server error. Please try again later.";
-          }
-        }
-      } else if (error instanceof Error) {
-        errorMessage = error.message;
-      }
-      setCheckoutError(errorMessage);
+      setCheckoutError(describeApiError(error, "checkout").message);
       setIsProcessingCheckout(false);
     }
   };
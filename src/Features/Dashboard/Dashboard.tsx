@@ -27,36 +27,34 @@ import {
   Key,
   Box,
   User as UserIcon,
+  ShieldKeyhole,
+  Settings as SettingsIcon,
+  UsersGroupRounded,
 } from "@solar-icons/react";
 import { Overview } from "./pages/Overview";
 import { Usage } from "./pages/Usage";
 import { ApiKey } from "./pages/ApiKey";
-import type { User } from "@/lib/api/endpoints";
+import { Security } from "./pages/Security";
+import { Settings } from "./pages/Settings";
+import { Team } from "./pages/Team";
+import { RateLimitBanner } from "./RateLimitBanner";
+import { IdleTimeoutDialog } from "./IdleTimeoutDialog";
+import { SessionExpiryDialog } from "./SessionExpiryDialog";
+import { useCurrentUser, useSession } from "@/lib/session/useSession";
+import { Can } from "@/lib/session/Can";
+import { RequirePermission } from "@/lib/session/RouteGuards";
 import { CustomSubscription } from "../CustomSubscription";
 
-interface DashboardProps {
-  onLogout?: () => void;
-}
-
-export function Dashboard({ onLogout }: DashboardProps) {
+export function Dashboard() {
   const isSidebarOpen = true;
   const navigate = useNavigate();
   const location = useLocation();
   const [activeSubTab, setActiveSubTab] = useState<
     "media" | "concept-test" | "price-simulator" | "product" | "persona"
   >("media");
-  const [userData] = useState<User | null>(() => {
-    const storedUserData = localStorage.getItem("userData");
-    if (storedUserData) {
-      try {
-        return JSON.parse(storedUserData);
-      } catch (error) {
-        console.error("Error parsing user data:", error);
-        return null;
-      }
-    }
-    return null;
-  });
+  const { logout } = useSession();
+  const [isLoggingOut, setIsLoggingOut] = useState(false);
+  const userData = useCurrentUser();
 
   const handleApiKeyClick = () => {
     navigate("/dashboard/api-keys");
@@ -70,6 +68,18 @@ export function Dashboard({ onLogout }: DashboardProps) {
     navigate("/dashboard/usage");
   };
 
+  const handleSecurityClick = () => {
+    navigate("/dashboard/security");
+  };
+
+  const handleTeamClick = () => {
+    navigate("/dashboard/team");
+  };
+
+  const handleSettingsClick = () => {
+    navigate("/dashboard/settings");
+  };
+
   return (
     <div className="dashboard-container flex h-screen overflow-hidden bg-[#fafafa] dark:bg-[#0a0a0a]">
       {isSidebarOpen && (
@@ -100,104 +110,142 @@ export function Dashboard({ onLogout }: DashboardProps) {
                 <Home size={18} className="mr-2" />
                 Overview
               </SidebarItem>
-              <SidebarItem
-                onClick={handleUsageClick}
-                className={`transition-all duration-200 ${
-                  location.pathname === "/dashboard/usage"
-                    ? "bg-[#00c950]/10 text-black dark:text-white border-l-4 border-[#00c950] font-semibold"
-                    : "text-[#666666] dark:text-[#999999] hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a] hover:text-black dark:hover:text-white"
-                }`}
-              >
-                <Chart size={18} className="mr-2" />
-                Usage
-              </SidebarItem>
-              <div className="ml-4 mt-2 mb-2 space-y-1 border-l-2 border-[#e5e5e5] dark:border-[#1f1f1f] pl-2">
-                <SidebarSubItem
-                  onClick={() => {
-                    navigate("/dashboard/usage");
-                    setActiveSubTab("media");
-                  }}
-                  className={`transition-all duration-200 ${
-                    location.pathname === "/dashboard/usage" &&
-                    activeSubTab === "media"
-                      ? "bg-[#00c950]/10 text-[#00c950] font-medium"
-                      : "text-[#666666] dark:text-[#999999] hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a] hover:text-black dark:hover:text-white"
-                  }`}
-                >
-                  <Gallery size={16} className="mr-2" />
-                  Media
-                </SidebarSubItem>
-                <SidebarSubItem
-                  onClick={() => {
-                    navigate("/dashboard/usage");
-                    setActiveSubTab("concept-test");
-                  }}
-                  className={`transition-all duration-200 ${
-                    location.pathname === "/dashboard/usage" &&
-                    activeSubTab === "concept-test"
-                      ? "bg-[#00c950]/10 text-[#00c950] font-medium"
-                      : "text-[#666666] dark:text-[#999999] hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a] hover:text-black dark:hover:text-white"
-                  }`}
-                >
-                  <TestTube size={16} className="mr-2" />
-                  Concept Test
-                </SidebarSubItem>
-                <SidebarSubItem
-                  onClick={() => {
-                    navigate("/dashboard/usage");
-                    setActiveSubTab("price-simulator");
-                  }}
+              {/* Usage is broken down per key */}
+              <Can permission="api_keys:view">
+                <SidebarItem
+                  onClick={handleUsageClick}
                   className={`transition-all duration-200 ${
-                    location.pathname === "/dashboard/usage" &&
-                    activeSubTab === "price-simulator"
-                      ? "bg-[#00c950]/10 text-[#00c950] font-medium"
+                    location.pathname === "/dashboard/usage"
+                      ? "bg-[#00c950]/10 text-black dark:text-white border-l-4 border-[#00c950] font-semibold"
                       : "text-[#666666] dark:text-[#999999] hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a] hover:text-black dark:hover:text-white"
                   }`}
                 >
-                  <Calculator size={16} className="mr-2" />
-                  Price Simulator
-                </SidebarSubItem>
-                <SidebarSubItem
-                  onClick={() => {
-                    navigate("/dashboard/usage");
-                    setActiveSubTab("product");
-                  }}
-                  className={`transition-all duration-200 ${
-                    location.pathname === "/dashboard/usage" &&
-                    activeSubTab === "product"
-                      ? "bg-[#00c950]/10 text-[#00c950] font-medium"
-                      : "text-[#666666] dark:text-[#999999] hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a] hover:text-black dark:hover:text-white"
-                  }`}
-                >
-                  <Box size={16} className="mr-2" />
-                  Product
-                </SidebarSubItem>
-                <SidebarSubItem
-                  onClick={() => {
-                    navigate("/dashboard/usage");
-                    setActiveSubTab("persona");
-                  }}
+                  <Chart size={18} className="mr-2" />
+                  Usage
+                </SidebarItem>
+                <div className="ml-4 mt-2 mb-2 space-y-1 border-l-2 border-[#e5e5e5] dark:border-[#1f1f1f] pl-2">
+                  <SidebarSubItem
+                    onClick={() => {
+                      navigate("/dashboard/usage");
+                      setActiveSubTab("media");
+                    }}
+                    className={`transition-all duration-200 ${
+                      location.pathname === "/dashboard/usage" &&
+                      activeSubTab === "media"
+                        ? "bg-[#00c950]/10 text-[#00c950] font-medium"
+                        : "text-[#666666] dark:text-[#999999] hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a] hover:text-black dark:hover:text-white"
+                    }`}
+                  >
+                    <Gallery size={16} className="mr-2" />
+                    Media
+                  </SidebarSubItem>
+                  <SidebarSubItem
+                    onClick={() => {
+                      navigate("/dashboard/usage");
+                      setActiveSubTab("concept-test");
+                    }}
+                    className={`transition-all duration-200 ${
+                      location.pathname === "/dashboard/usage" &&
+                      activeSubTab === "concept-test"
+                        ? "bg-[#00c950]/10 text-[#00c950] font-medium"
+                        : "text-[#666666] dark:text-[#999999] hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a] hover:text-black dark:hover:text-white"
+                    }`}
+                  >
+                    <TestTube size={16} className="mr-2" />
+                    Concept Test
+                  </SidebarSubItem>
+                  <SidebarSubItem
+                    onClick={() => {
+                      navigate("/dashboard/usage");
+                      setActiveSubTab("price-simulator");
+                    }}
+                    className={`transition-all duration-200 ${
+                      location.pathname === "/dashboard/usage" &&
+                      activeSubTab === "price-simulator"
+                        ? "bg-[#00c950]/10 text-[#00c950] font-medium"
+                        : "text-[#666666] dark:text-[#999999] hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a] hover:text-black dark:hover:text-white"
+                    }`}
+                  >
+                    <Calculator size={16} className="mr-2" />
+                    Price Simulator
+                  </SidebarSubItem>
+                  <SidebarSubItem
+                    onClick={() => {
+                      navigate("/dashboard/usage");
+                      setActiveSubTab("product");
+                    }}
+                    className={`transition-all duration-200 ${
+                      location.pathname === "/dashboard/usage" &&
+                      activeSubTab === "product"
+                        ? "bg-[#00c950]/10 text-[#00c950] font-medium"
+                        : "text-[#666666] dark:text-[#999999] hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a] hover:text-black dark:hover:text-white"
+                    }`}
+                  >
+                    <Box size={16} className="mr-2" />
+                    Product
+                  </SidebarSubItem>
+                  <SidebarSubItem
+                    onClick={() => {
+                      navigate("/dashboard/usage");
+                      setActiveSubTab("persona");
+                    }}
+                    className={`transition-all duration-200 ${
+                      location.pathname === "/dashboard/usage" &&
+                      activeSubTab === "persona"
+                        ? "bg-[#00c950]/10 text-[#00c950] font-medium"
+                        : "text-[#666666] dark:text-[#999999] hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a] hover:text-black dark:hover:text-white"
+                    }`}
+                  >
+                    <UserIcon size={16} className="mr-2" />
+                    Persona
+                  </SidebarSubItem>
+                </div>
+              </Can>
+              <Can permission="api_keys:view">
+                <SidebarItem
+                  onClick={handleApiKeyClick}
                   className={`transition-all duration-200 ${
-                    location.pathname === "/dashboard/usage" &&
-                    activeSubTab === "persona"
-                      ? "bg-[#00c950]/10 text-[#00c950] font-medium"
+                    location.pathname === "/dashboard/api-keys"
+                      ? "bg-[#00c950]/10 text-black dark:text-white border-l-4 border-[#00c950] font-semibold"
                       : "text-[#666666] dark:text-[#999999] hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a] hover:text-black dark:hover:text-white"
                   }`}
                 >
-                  <UserIcon size={16} className="mr-2" />
-                  Persona
-                </SidebarSubItem>
-              </div>
+                  <Key size={18} className="mr-2" />
+                  API Key
+                </SidebarItem>
+              </Can>
               <SidebarItem
-                onClick={handleApiKeyClick}
+                onClick={handleTeamClick}
                 className={`transition-all duration-200 ${
-                  location.pathname === "/dashboard/api-keys"
+                  location.pathname === "/dashboard/team"
                     ? "bg-[#00c950]/10 text-black dark:text-white border-l-4 border-[#00c950] font-semibold"
                     : "text-[#666666] dark:text-[#999999] hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a] hover:text-black dark:hover:text-white"
                 }`}
               >
-                <Key size={18} className="mr-2" />
-                API Key
+                <UsersGroupRounded size={18} className="mr-2" />
+                Team
+              </SidebarItem>
+              <SidebarItem
+                onClick={handleSecurityClick}
+                className={`transition-all duration-200 ${
+                  location.pathname === "/dashboard/security"
+                    ? "bg-[#00c950]/10 text-black dark:text-white border-l-4 border-[#00c950] font-semibold"
+                    : "text-[#666666] dark:text-[#999999] hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a] hover:text-black dark:hover:text-white"
+                }`}
+              >
+                <ShieldKeyhole size={18} className="mr-2" />
+                Security
+              </SidebarItem>
+              <SidebarItem
+                onClick={handleSettingsClick}
+                className={`transition-all duration-200 ${
+                  location.pathname === "/dashboard/settings"
+                    ? "bg-[#00c950]/10 text-black dark:text-white border-l-4 border-[#00c950] font-semibold"
+                    : "text-[#666666] dark:text-[#999999] hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a] hover:text-black dark:hover:text-white"
+                }`}
+              >
+                <SettingsIcon size={18} className="mr-2" />
+                Settings
               </SidebarItem>
             </SidebarGroup>
           </SidebarContent>
@@ -266,7 +314,9 @@ export function Dashboard({ onLogout }: DashboardProps) {
                   </svg>
                   Add Credits
                 </Button> */}
-                  <CustomSubscription />
+                  <Can permission="billing:manage">
+                    <CustomSubscription />
+                  </Can>
                 </div>
               </CardContent>
             </Card>
@@ -275,26 +325,14 @@ export function Dashboard({ onLogout }: DashboardProps) {
             <Button
               variant="ghost"
               className="w-full justify-start text-[#666666] dark:text-[#999999] hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a] hover:text-black dark:hover:text-white transition-all duration-200"
+              disabled={isLoggingOut}
               onClick={() => {
-                if (onLogout) {
-                  onLogout();
-                } else {
-                  localStorage.removeItem("access_token");
-                  localStorage.removeItem("refresh_token");
-                  localStorage.removeItem("token_type");
-                  localStorage.removeItem("expires_in");
-                  localStorage.removeItem("refresh_expires_in");
-                  localStorage.removeItem("token_timestamp");
-                  localStorage.removeItem("userEmail");
-                  localStorage.removeItem("userId");
-                  localStorage.removeItem("userData");
-                  sessionStorage.removeItem("userPassword");
-                  window.location.reload();
-                }
+                setIsLoggingOut(true);
+                logout();
               }}
             >
               <Logout size={18} className="mr-2" />
-              Logout
+              {isLoggingOut ? "Logging out..." : "Logout"}
             </Button>
           </SidebarFooter>
         </Sidebar>
@@ -302,22 +340,38 @@ export function Dashboard({ onLogout }: DashboardProps) {
 
       <main className="flex-1 overflow-y-auto bg-white dark:bg-[#111111] m-4 rounded-xl shadow-sm border border-[#e5e5e5] dark:border-[#1f1f1f]">
         <div className="container mx-auto px-6 py-6">
+          <RateLimitBanner />
           <Routes>
             <Route path="/" element={<Overview />} />
             <Route
               path="/usage"
               element={
-                <Usage
-                  activeSubTab={activeSubTab}
-                  onSubTabChange={setActiveSubTab}
-                />
+                <RequirePermission permission="api_keys:view">
+                  <Usage
+                    activeSubTab={activeSubTab}
+                    onSubTabChange={setActiveSubTab}
+                  />
+                </RequirePermission>
               }
             />
-            <Route path="/api-keys" element={<ApiKey />} />
+            <Route
+              path="/api-keys"
+              element={
+                <RequirePermission permission="api_keys:view">
+                  <ApiKey />
+                </RequirePermission>
+              }
+            />
+            <Route path="/team" element={<Team />} />
+            <Route path="/security" element={<Security />} />
+            <Route path="/settings" element={<Settings />} />
             <Route path="*" element={<Navigate to="/dashboard" replace />} />
           </Routes>
         </div>
       </main>
+
+      <IdleTimeoutDialog />
+      <SessionExpiryDialog />
     </div>
   );
 }
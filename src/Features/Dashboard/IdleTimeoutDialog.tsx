@@ -0,0 +1,151 @@
+import { useEffect, useEffectEvent, useRef, useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { refreshSession } from "@/lib/api/endpoints";
+import { getLastActivity, recordActivity } from "@/lib/session/session";
+import { useSession } from "@/lib/session/useSession";
+
+// Inactivity before the session ends, from VITE_IDLE_TIMEOUT_MINUTES (default 15)
+const IDLE_TIMEOUT_MS =
+  (Number(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES) || 15) * 60_000;
+
+// How long the warning counts down before logging out
+const WARNING_MS = 60_000;
+
+const ACTIVITY_EVENTS = [
+  "mousemove",
+  "mousedown",
+  "keydown",
+  "scroll",
+  "touchstart",
+] as const;
+
+// Limits localStorage writes while the user is active
+const ACTIVITY_WRITE_INTERVAL_MS = 5_000;
+
+interface IdleTimeoutDialogProps {
+  timeoutMs?: number;
+  warningMs?: number;
+}
+
+/**
+ * Logs the user out after a period of inactivity. A dialog counts down the
+ * last `warningMs` and lets the user stay signed in.
+ */
+export function IdleTimeoutDialog({
+  timeoutMs = IDLE_TIMEOUT_MS,
+  warningMs = WARNING_MS,
+}: IdleTimeoutDialogProps) {
+  const { logout } = useSession();
+  // Seconds until logout while the warning is shown, otherwise null
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const [isExtending, setIsExtending] = useState(false);
+  const lastActivity = useRef(0);
+  const isWarning = useRef(false);
+
+  const markActive = (now: number) => {
+    lastActivity.current = now;
+    recordActivity(now);
+  };
+
+  const onIdle = useEffectEvent(() => {
+    logout();
+  });
+
+  useEffect(() => {
+    markActive(Date.now());
+
+    const onActivity = () => {
+      // Only "Stay signed in" dismisses the warning
+      if (isWarning.current) return;
+      const now = Date.now();
+      if (now - lastActivity.current >= ACTIVITY_WRITE_INTERVAL_MS) {
+        markActive(now);
+      }
+    };
+
+    const timer = setInterval(() => {
+      const lastSeen = Math.max(lastActivity.current, getLastActivity());
+      const remaining = timeoutMs - (Date.now() - lastSeen);
+
+      if (remaining <= 0) {
+        clearInterval(timer);
+        // Ending the session redirects to /login; only one tab calls the
+        // server, the others follow through storage
+        onIdle();
+      } else if (remaining <= warningMs) {
+        isWarning.current = true;
+        setSecondsLeft(Math.ceil(remaining / 1000));
+      } else if (isWarning.current) {
+        // Active again in another tab
+        isWarning.current = false;
+        setSecondsLeft(null);
+      }
+    }, 1000);
+
+    ACTIVITY_EVENTS.forEach((name) =>
+      window.addEventListener(name, onActivity, { passive: true })
+    );
+    return () => {
+      clearInterval(timer);
+      ACTIVITY_EVENTS.forEach((name) =>
+        window.removeEventListener(name, onActivity)
+      );
+    };
+  }, [timeoutMs, warningMs]);
+
+  const handleStaySignedIn = async () => {
+    setIsExtending(true);
+    try {
+      // Shares the cross-tab lock with scheduled refreshes
+      await refreshSession();
+      markActive(Date.now());
+      isWarning.current = false;
+      setSecondsLeft(null);
+    } catch {
+      // A rejected refresh ended the session, which redirects to /login;
+      // after a transient failure the user can try again
+    } finally {
+      setIsExtending(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={secondsLeft !== null}>
+      <AlertDialogContent className="max-w-md">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="text-xl font-semibold text-black dark:text-white">
+            Are you still there?
+          </AlertDialogTitle>
+          <AlertDialogDescription className="text-sm text-[#666666] dark:text-[#999999]">
+            You've been inactive for a while. For your security, you'll be
+            logged out in{" "}
+            <span className="font-semibold tabular-nums text-black dark:text-white">
+              {secondsLeft}s
+            </span>
+            .
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={() => logout()}>
+            Log out now
+          </Button>
+          <Button
+            className="bg-[#00c950] hover:bg-[#00b045] text-white"
+            onClick={handleStaySignedIn}
+            disabled={isExtending}
+          >
+            {isExtending ? "Extending..." : "Stay signed in"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
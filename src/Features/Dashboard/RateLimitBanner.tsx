@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react";
+import { ClockCircle, DangerTriangle } from "@solar-icons/react";
+import { invalidateApiKeyQueries } from "@/lib/api/queries";
+import { useRateLimit } from "@/lib/api/useRateLimit";
+
+// Warn once fewer than this share of the quota is left
+const LOW_QUOTA_RATIO = 0.1;
+
+const formatCountdown = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+/**
+ * Banner shown above the dashboard pages while the API rate limit is hit
+ * (with a countdown to the reset) or when little of the quota is left
+ */
+export function RateLimitBanner() {
+  const { info, blockedUntil } = useRateLimit();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (blockedUntil === null) return;
+
+    const tick = () => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= blockedUntil) {
+        clearInterval(timer);
+        // Pages waiting on the limit load their data again
+        invalidateApiKeyQueries();
+      }
+    };
+    const timer = setInterval(tick, 1000);
+    // Sync right away - `now` may be older than the block
+    const initial = setTimeout(tick, 0);
+    return () => {
+      clearInterval(timer);
+      clearTimeout(initial);
+    };
+  }, [blockedUntil]);
+
+  const secondsLeft =
+    blockedUntil === null
+      ? 0
+      : Math.max(0, Math.ceil((blockedUntil - now) / 1000));
+
+  if (secondsLeft > 0) {
+    return (
+      <div className="animate-fade-in-up mb-6 flex items-center gap-3 rounded-lg border border-[#f59e0b]/40 bg-[#f59e0b]/10 px-4 py-3 text-sm text-[#b45309] dark:text-[#f59e0b]">
+        <ClockCircle size={18} className="shrink-0" />
+        <span>
+          You've hit the API rate limit
+          {info?.limit != null && ` of ${info.limit} requests`}. Requests will
+          resume in{" "}
+          <span className="font-semibold tabular-nums">
+            {formatCountdown(secondsLeft)}
+          </span>
+          .
+        </span>
+      </div>
+    );
+  }
+
+  if (
+    blockedUntil === null &&
+    info?.limit &&
+    info.remaining !== null &&
+    info.remaining <= info.limit * LOW_QUOTA_RATIO
+  ) {
+    return (
+      <div className="animate-fade-in-up mb-6 flex items-center gap-3 rounded-lg border border-[#f59e0b]/40 bg-[#f59e0b]/10 px-4 py-3 text-sm text-[#b45309] dark:text-[#f59e0b]">
+        <DangerTriangle size={18} className="shrink-0" />
+        <span>
+          Only {info.remaining} of {info.limit} requests left in the current
+          rate-limit window.
+        </span>
+      </div>
+    );
+  }
+
+  return null;
+}
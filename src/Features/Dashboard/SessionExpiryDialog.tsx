@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { useSession } from "@/lib/session/useSession";
+import { REAUTH_WINDOW_MS } from "@/lib/session/useTokenRefreshScheduler";
+
+/**
+ * Asks the user to log in again once the refresh token is about to expire,
+ * since the session can no longer be renewed in the background
+ */
+export function SessionExpiryDialog() {
+  const { session, logout } = useSession();
+  const refreshExpiresAt = session?.refreshExpiresAt ?? null;
+  // Seconds until the session ends, once inside the re-login window
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  // The session the user chose "Later" for
+  const [dismissedFor, setDismissedFor] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!refreshExpiresAt) return;
+
+    const tick = () => {
+      const remaining = refreshExpiresAt - Date.now();
+      setSecondsLeft(
+        remaining <= REAUTH_WINDOW_MS
+          ? Math.max(0, Math.ceil(remaining / 1000))
+          : null
+      );
+    };
+    const timer = setInterval(tick, 1000);
+    const initial = setTimeout(tick, 0);
+    return () => {
+      clearInterval(timer);
+      clearTimeout(initial);
+    };
+  }, [refreshExpiresAt]);
+
+  const isOpen =
+    refreshExpiresAt !== null &&
+    secondsLeft !== null &&
+    dismissedFor !== refreshExpiresAt;
+  const minutesLeft = Math.ceil((secondsLeft ?? 0) / 60);
+
+  return (
+    <AlertDialog open={isOpen}>
+      <AlertDialogContent className="max-w-md">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="text-xl font-semibold text-black dark:text-white">
+            Your session is ending
+          </AlertDialogTitle>
+          <AlertDialogDescription className="text-sm text-[#666666] dark:text-[#999999]">
+            {secondsLeft
+              ? `Your session expires in ${minutesLeft} minute${
+                  minutesLeft === 1 ? "" : "s"
+                }.`
+              : "Your session has expired."}{" "}
+            Log in again to keep working without interruption.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => setDismissedFor(refreshExpiresAt)}
+          >
+            Later
+          </Button>
+          <Button
+            className="bg-[#00c950] hover:bg-[#00b045] text-white"
+            onClick={() => logout()}
+          >
+            Log in again
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,55 @@
+import type { ApiKeyListItem, ApiKeyScope } from "@/lib/api/endpoints";
+
+// Product names for consumed_by values and key scopes
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  product_ocr: "Product",
+  persona_generation_clustering: "Persona",
+  concept_simulation: "Concept Test",
+  media_simulation: "Media",
+};
+
+/**
+ * Name shown wherever a key is picked: its label, plus the masked suffix to
+ * tell keys with similar labels apart
+ */
+export const formatApiKeyName = (
+  key: Pick<ApiKeyListItem, "label" | "masked_suffix">
+): string =>
+  key.label
+    ? `${key.label} (...${key.masked_suffix})`
+    : `........${key.masked_suffix}`;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Keys expiring within this many days are highlighted
+export const EXPIRY_WARNING_DAYS = 7;
+
+type ExpiringKey = Pick<ApiKeyListItem, "expires_at">;
+
+export const isApiKeyExpired = (key: ExpiringKey, now: number): boolean =>
+  !!key.expires_at && new Date(key.expires_at).getTime() <= now;
+
+export const isApiKeyExpiringSoon = (key: ExpiringKey, now: number): boolean =>
+  !!key.expires_at &&
+  !isApiKeyExpired(key, now) &&
+  new Date(key.expires_at).getTime() - now <= EXPIRY_WARNING_DAYS * DAY_MS;
+
+/**
+ * Time left until a key expires, e.g. "Expires in 3 days"
+ */
+export const formatTimeToExpiry = (expiresAt: string, now: number): string => {
+  const remaining = new Date(expiresAt).getTime() - now;
+  if (remaining <= 0) {
+    return "Expired";
+  }
+  const days = Math.floor(remaining / DAY_MS);
+  if (days >= 1) {
+    return `Expires in ${days} day${days === 1 ? "" : "s"}`;
+  }
+  const hours = Math.floor(remaining / HOUR_MS);
+  if (hours >= 1) {
+    return `Expires in ${hours} hour${hours === 1 ? "" : "s"}`;
+  }
+  return "Expires in less than an hour";
+};
@@ -0,0 +1,13 @@
+/**
+ * Converts a date input value (YYYY-MM-DD) to an ISO timestamp for the stats
+ * filters. Browsers accept some values (e.g. 6-digit years) that are not
+ * valid dates, so those give null instead of throwing.
+ * @param endOfDay - Use the last second of the day, to include all of it
+ */
+export const dateInputToIso = (
+  value: string,
+  endOfDay = false
+): string | null => {
+  const date = new Date(endOfDay ? `${value}T23:59:59` : value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
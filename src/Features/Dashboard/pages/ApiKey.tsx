@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useId, useState } from "react";
 import {
   Card,
   CardContent,
@@ -7,83 +7,621 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Eye, EyeClosed, Copy, RefreshCircle } from "@solar-icons/react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Eye,
+  EyeClosed,
+  Copy,
+  RefreshCircle,
+  Pen,
+  ClockCircle,
+  Restart,
+  Wallet,
+} from "@solar-icons/react";
 import { HugeiconsIcon } from "@hugeicons/react";
 import { Delete01Icon } from "@hugeicons/core-free-icons";
 import {
   createApiKeyEndpoint,
-  listApiKeysEndpoint,
   deleteApiKeyEndpoint,
+  rotateApiKeyEndpoint,
+  setApiKeyBudgetEndpoint,
+  updateApiKeyEndpoint,
+  API_KEY_SCOPES,
   type ApiKey,
-  ApiError,
+  type ApiKeyBudgetRequest,
+  type ApiKeyBudgetState,
+  type ApiKeyBudgetStatus,
+  type ApiKeyScope,
+  type CreateApiKeyRequest,
 } from "@/lib/api/endpoints";
+import { describeApiError } from "@/lib/api/errorMessages";
+import {
+  apiKeyStatsQuery,
+  apiKeysQuery,
+  invalidateApiKeyQueries,
+} from "@/lib/api/queries";
+import { useQuery } from "@/lib/api/useQuery";
+import { Can } from "@/lib/session/Can";
+import { usePermission } from "@/lib/session/useSession";
+import { useNow } from "@/lib/useNow";
+import {
+  API_KEY_SCOPE_LABELS,
+  formatApiKeyName,
+  formatTimeToExpiry,
+  isApiKeyExpired,
+  isApiKeyExpiringSoon,
+} from "../apiKeyFormat";
+
+// Expiry choices when creating a key, in days ("custom" picks a date)
+const EXPIRY_OPTIONS: Record<string, string> = {
+  never: "Never expires",
+  "7": "7 days",
+  "30": "30 days",
+  "90": "90 days",
+  "365": "1 year",
+  custom: "Custom date",
+};
+
+// How long a rotated-out key keeps working, in hours
+const GRACE_PERIOD_OPTIONS: Record<string, string> = {
+  "1": "1 hour",
+  "24": "24 hours",
+  "72": "3 days",
+  "168": "7 days",
+};
+
+// Fill color of the budget bar
+const BUDGET_BAR_COLORS: Record<ApiKeyBudgetStatus, string> = {
+  ok: "bg-[#00c950]",
+  soft_limit_reached: "bg-[#f59e0b]",
+  hard_limit_reached: "bg-[#ef4444]",
+};
+
+// Local YYYY-MM-DD, the format of date inputs
+const toDateInputValue = (date: Date): string =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+/**
+ * Label, description and owner fields, used to create and to edit a key.
+ * Scopes and expiry are only set when creating.
+ */
+function ApiKeyDetailsForm({
+  initial,
+  isNewKey = false,
+  submitLabel,
+  savingLabel,
+  isSaving,
+  onSubmit,
+  onCancel,
+}: {
+  initial?: CreateApiKeyRequest;
+  isNewKey?: boolean;
+  submitLabel: string;
+  savingLabel: string;
+  isSaving: boolean;
+  onSubmit: (details: CreateApiKeyRequest) => void;
+  onCancel: () => void;
+}) {
+  const [label, setLabel] = useState(initial?.label ?? "");
+  const [description, setDescription] = useState(initial?.description ?? "");
+  const [owner, setOwner] = useState(initial?.owner ?? "");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([...API_KEY_SCOPES]);
+  const [expiry, setExpiry] = useState("never");
+  const [customExpiryDate, setCustomExpiryDate] = useState("");
+  const now = useNow();
+  // Custom expiry dates start tomorrow
+  const minExpiryDate = toDateInputValue(new Date(now + 24 * 60 * 60 * 1000));
+  // Create and edit forms can be open at once
+  const id = useId();
+
+  const isValid =
+    !!label.trim() &&
+    (!isNewKey ||
+      (scopes.length > 0 &&
+        (expiry !== "custom" || customExpiryDate >= minExpiryDate)));
+
+  // Expiry as an ISO timestamp, or undefined for a key that never expires
+  const getExpiresAt = (): string | undefined => {
+    if (expiry === "never") return undefined;
+    if (expiry === "custom") {
+      // The key works until the end of the chosen day
+      return new Date(`${customExpiryDate}T23:59:59`).toISOString();
+    }
+    return new Date(
+      Date.now() + Number(expiry) * 24 * 60 * 60 * 1000
+    ).toISOString();
+  };
+
+  const toggleScope = (scope: ApiKeyScope) =>
+    setScopes((prev) =>
+      prev.includes(scope)
+        ? prev.filter((s) => s !== scope)
+        : API_KEY_SCOPES.filter((s) => s === scope || prev.includes(s))
+    );
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!isValid) return;
+    onSubmit({
+      label: label.trim(),
+      description: description.trim(),
+      owner: owner.trim(),
+      ...(isNewKey && {
+        // No scopes means all products, including ones added later
+        scopes: scopes.length === API_KEY_SCOPES.length ? undefined : scopes,
+        expires_at: getExpiresAt(),
+      }),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1.5">
+          <Label htmlFor={`${id}-label`}>Label</Label>
+          <Input
+            id={`${id}-label`}
+            placeholder="e.g. Production backend"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            maxLength={64}
+            required
+            disabled={isSaving}
+            className="bg-white dark:bg-[#0a0a0a] border-[#e5e5e5] dark:border-[#1f1f1f] text-black dark:text-white"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor={`${id}-owner`}>Owner (optional)</Label>
+          <Input
+            id={`${id}-owner`}
+            placeholder="Team or person responsible"
+            value={owner}
+            onChange={(e) => setOwner(e.target.value)}
+            maxLength={64}
+            disabled={isSaving}
+            className="bg-white dark:bg-[#0a0a0a] border-[#e5e5e5] dark:border-[#1f1f1f] text-black dark:text-white"
+          />
+        </div>
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor={`${id}-description`}>Description (optional)</Label>
+        <Input
+          id={`${id}-description`}
+          placeholder="What this key is used for"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          maxLength={255}
+          disabled={isSaving}
+          className="bg-white dark:bg-[#0a0a0a] border-[#e5e5e5] dark:border-[#1f1f1f] text-black dark:text-white"
+        />
+      </div>
+      {isNewKey && (
+        <fieldset className="space-y-1.5">
+          <legend className="text-sm font-medium text-black dark:text-white">
+            Allowed products
+          </legend>
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {API_KEY_SCOPES.map((scope) => (
+              <label
+                key={scope}
+                className="flex items-center gap-2 text-sm text-black dark:text-white"
+              >
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                  disabled={isSaving}
+                  className="size-4 accent-[#00c950]"
+                />
+                {API_KEY_SCOPE_LABELS[scope]}
+              </label>
+            ))}
+          </div>
+          {scopes.length === 0 && (
+            <p className="text-xs text-[#ef4444]">
+              Select at least one product.
+            </p>
+          )}
+        </fieldset>
+      )}
+      {isNewKey && (
+        <div className="space-y-1.5">
+          <Label>Expiration</Label>
+          <div className="flex flex-wrap gap-2">
+            <Select
+              value={expiry}
+              items={EXPIRY_OPTIONS}
+              onValueChange={(value) => value && setExpiry(value)}
+              disabled={isSaving}
+            >
+              <SelectTrigger className="w-[180px] border-[#e5e5e5] dark:border-[#1f1f1f] bg-white dark:bg-[#0a0a0a] text-black dark:text-white focus:border-[#00c950] focus:ring-[#00c950]/20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-white dark:bg-[#111111] border-[#e5e5e5] dark:border-[#1f1f1f]">
+                {Object.entries(EXPIRY_OPTIONS).map(([value, optionLabel]) => (
+                  <SelectItem
+                    key={value}
+                    value={value}
+                    className="text-black dark:text-white"
+                  >
+                    {optionLabel}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {expiry === "custom" && (
+              <Input
+                type="date"
+                aria-label="Expiration date"
+                value={customExpiryDate}
+                min={minExpiryDate}
+                onChange={(e) => setCustomExpiryDate(e.target.value)}
+                disabled={isSaving}
+                className="w-[170px] bg-white dark:bg-[#0a0a0a] border-[#e5e5e5] dark:border-[#1f1f1f] text-black dark:text-white"
+              />
+            )}
+          </div>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Button
+          type="submit"
+          disabled={isSaving || !isValid}
+          className="bg-[#00c950] hover:bg-[#00b045] text-white font-medium"
+        >
+          {isSaving ? savingLabel : submitLabel}
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={onCancel}
+          disabled={isSaving}
+          className="hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a] text-black dark:text-white"
+        >
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Credits a key has used this month against its budget
+ */
+function BudgetBar({ budget }: { budget: ApiKeyBudgetState }) {
+  // Scaled to the hard cap, or to the soft limit when there is no cap
+  const limit = budget.hard_limit ?? budget.soft_limit;
+  if (!limit) return null;
+
+  const percent = Math.min(100, (budget.credits_used / limit) * 100);
+  const softLimitPercent =
+    budget.hard_limit && budget.soft_limit
+      ? (budget.soft_limit / budget.hard_limit) * 100
+      : null;
+  const resetDate = new Date(budget.period_end).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+        <span className="text-[#666666] dark:text-[#999999]">
+          {budget.credits_used.toLocaleString()} of {limit.toLocaleString()}{" "}
+          credits this month
+        </span>
+        {budget.status === "hard_limit_reached" ? (
+          <span className="font-medium text-[#ef4444]">
+            Hard cap reached. Requests are rejected until {resetDate}.
+          </span>
+        ) : budget.status === "soft_limit_reached" ? (
+          <span className="font-medium text-[#f59e0b]">
+            Over the soft limit of {budget.soft_limit?.toLocaleString()}
+          </span>
+        ) : (
+          <span className="text-[#666666] dark:text-[#999999]">
+            {budget.hard_limit ? "Hard cap" : "Soft limit only"} · Resets{" "}
+            {resetDate}
+          </span>
+        )}
+      </div>
+      <div
+        role="progressbar"
+        aria-label="Monthly budget used"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(percent)}
+        className="relative h-1.5 w-full overflow-hidden rounded-full bg-[#e5e5e5] dark:bg-[#1f1f1f]"
+      >
+        <div
+          className={`h-full rounded-full transition-all duration-300 ${
+            BUDGET_BAR_COLORS[budget.status]
+          }`}
+          style={{ width: `${percent}%` }}
+        />
+        {softLimitPercent !== null && (
+          <div
+            className="absolute inset-y-0 w-0.5 bg-black/40 dark:bg-white/40"
+            style={{ left: `${softLimitPercent}%` }}
+            title="Soft limit"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Soft and hard monthly credit limits of a key.
+ * An empty field leaves that threshold unset.
+ */
+function BudgetForm({
+  initial,
+  isSaving,
+  onSubmit,
+  onCancel,
+}: {
+  initial?: ApiKeyBudgetRequest;
+  isSaving: boolean;
+  onSubmit: (budget: ApiKeyBudgetRequest) => void;
+  onCancel: () => void;
+}) {
+  const [softLimit, setSoftLimit] = useState(
+    initial?.soft_limit?.toString() ?? ""
+  );
+  const [hardLimit, setHardLimit] = useState(
+    initial?.hard_limit?.toString() ?? ""
+  );
+  const id = useId();
+
+  const soft = softLimit ? Number(softLimit) : null;
+  const hard = hardLimit ? Number(hardLimit) : null;
+  const isPositiveInteger = (value: number | null) =>
+    value === null || (Number.isInteger(value) && value > 0);
+  const isOrdered = soft === null || hard === null || soft <= hard;
+  const isValid =
+    (soft !== null || hard !== null) &&
+    isPositiveInteger(soft) &&
+    isPositiveInteger(hard) &&
+    isOrdered;
+  const hasBudget = initial?.soft_limit != null || initial?.hard_limit != null;
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!isValid) return;
+    onSubmit({ soft_limit: soft, hard_limit: hard });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-3 rounded-lg border border-[#e5e5e5] dark:border-[#1f1f1f] bg-white dark:bg-[#0a0a0a] p-3"
+    >
+      <p className="text-sm text-[#666666] dark:text-[#999999]">
+        Budgets reset at the start of each month. You are notified when the key
+        passes its soft limit, and its requests are rejected once it reaches
+        the hard cap.
+      </p>
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1.5">
+          <Label htmlFor={`${id}-soft`}>Soft limit (credits)</Label>
+          <Input
+            id={`${id}-soft`}
+            type="number"
+            min={1}
+            step={1}
+            placeholder="No soft limit"
+            value={softLimit}
+            onChange={(e) => setSoftLimit(e.target.value)}
+            disabled={isSaving}
+            className="bg-white dark:bg-[#0a0a0a] border-[#e5e5e5] dark:border-[#1f1f1f] text-black dark:text-white"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor={`${id}-hard`}>Hard cap (credits)</Label>
+          <Input
+            id={`${id}-hard`}
+            type="number"
+            min={1}
+            step={1}
+            placeholder="No hard cap"
+            value={hardLimit}
+            onChange={(e) => setHardLimit(e.target.value)}
+            disabled={isSaving}
+            className="bg-white dark:bg-[#0a0a0a] border-[#e5e5e5] dark:border-[#1f1f1f] text-black dark:text-white"
+          />
+        </div>
+      </div>
+      {!isOrdered && (
+        <p className="text-xs text-[#ef4444]">
+          The hard cap must be at least the soft limit.
+        </p>
+      )}
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="submit"
+          disabled={isSaving || !isValid}
+          className="bg-[#00c950] hover:bg-[#00b045] text-white font-medium"
+        >
+          {isSaving ? "Saving..." : "Save budget"}
+        </Button>
+        {hasBudget && (
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => onSubmit({ soft_limit: null, hard_limit: null })}
+            disabled={isSaving}
+            className="text-[#ef4444] hover:text-[#ef4444] hover:bg-[#ef4444]/10"
+          >
+            Remove budget
+          </Button>
+        )}
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={onCancel}
+          disabled={isSaving}
+          className="hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a] text-black dark:text-white"
+        >
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Grace period picker shown before rotating a key
+ */
+function RotateKeyPanel({
+  isRotating,
+  onRotate,
+  onCancel,
+}: {
+  isRotating: boolean;
+  onRotate: (gracePeriodHours: number) => void;
+  onCancel: () => void;
+}) {
+  const [gracePeriod, setGracePeriod] = useState("24");
+
+  return (
+    <div className="space-y-3 rounded-lg border border-[#e5e5e5] dark:border-[#1f1f1f] bg-white dark:bg-[#0a0a0a] p-3">
+      <p className="text-sm text-[#666666] dark:text-[#999999]">
+        A new key will be issued now. The current key keeps working during the
+        grace period so you can deploy the new one, then it is revoked
+        automatically.
+      </p>
+      <div className="flex flex-wrap items-center gap-2">
+        <Label className="whitespace-nowrap">Grace period</Label>
+        <Select
+          value={gracePeriod}
+          items={GRACE_PERIOD_OPTIONS}
+          onValueChange={(value) => value && setGracePeriod(value)}
+          disabled={isRotating}
+        >
+          <SelectTrigger className="w-[140px] border-[#e5e5e5] dark:border-[#1f1f1f] bg-white dark:bg-[#0a0a0a] text-black dark:text-white focus:border-[#00c950] focus:ring-[#00c950]/20">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-white dark:bg-[#111111] border-[#e5e5e5] dark:border-[#1f1f1f]">
+            {Object.entries(GRACE_PERIOD_OPTIONS).map(([value, optionLabel]) => (
+              <SelectItem
+                key={value}
+                value={value}
+                className="text-black dark:text-white"
+              >
+                {optionLabel}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={() => onRotate(Number(gracePeriod))}
+          disabled={isRotating}
+          className="bg-[#00c950] hover:bg-[#00b045] text-white font-medium"
+        >
+          {isRotating ? "Rotating..." : "Rotate key"}
+        </Button>
+        <Button
+          variant="ghost"
+          onClick={onCancel}
+          disabled={isRotating}
+          className="hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a] text-black dark:text-white"
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
 
 export function ApiKey() {
-  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
   const [isVisible, setIsVisible] = useState<{ [key: string]: boolean }>({});
   const [copied, setCopied] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [totalKeys, setTotalKeys] = useState(0);
-  const [maxAllowed, setMaxAllowed] = useState(5);
   const [newlyCreatedKey, setNewlyCreatedKey] = useState<string | null>(null);
+  const [isCreateFormOpen, setIsCreateFormOpen] = useState(false);
+  // Key whose details are being edited
+  const [editingKeyId, setEditingKeyId] = useState<string | null>(null);
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  // Key whose rotation panel is open
+  const [rotatingKeyId, setRotatingKeyId] = useState<string | null>(null);
+  const [isRotating, setIsRotating] = useState(false);
+  // Key whose budget is being edited
+  const [budgetKeyId, setBudgetKeyId] = useState<string | null>(null);
+  const [isSavingBudget, setIsSavingBudget] = useState(false);
+  const canCreate = usePermission("api_keys:create");
+  const canDelete = usePermission("api_keys:delete");
+  // Rotation revokes the old key, so it needs delete rights as well
+  const canRotate = canCreate && canDelete;
+  const now = useNow();
 
-  // Fetch API keys on component mount
-  useEffect(() => {
-    fetchApiKeys();
-  }, []);
+  // API keys come from the shared cache, refetched after create/delete
+  const keysQuery = useQuery(apiKeysQuery());
+  const isLoading = keysQuery.isLoading || isDeleting;
+  const listData = keysQuery.data?.data;
+  // Convert ApiKeyListItem[] to ApiKey[] (without full key, only masked)
+  const apiKeys: ApiKey[] = (listData?.keys ?? []).map((item) => ({
+    id: item.id,
+    label: item.label,
+    masked_suffix: item.masked_suffix,
+    description: item.description,
+    owner: item.owner,
+    scopes: item.scopes,
+    expires_at: item.expires_at,
+    rotated_to_key_id: item.rotated_to_key_id,
+    rotated_from_key_id: item.rotated_from_key_id,
+  }));
+  // For naming the other key of a rotation pair
+  const keysById = new Map(apiKeys.map((key) => [key.id, key]));
+  const totalKeys = listData?.total ?? 0;
+  const maxAllowed = listData?.max_allowed || 5;
+  const listError = keysQuery.error
+    ? describeApiError(keysQuery.error, "api_keys").message
+    : null;
 
-  const fetchApiKeys = async () => {
-    setIsLoading(true);
-    setError(null);
-    try {
-      const response = await listApiKeysEndpoint();
-      if (
-        response.data &&
-        response.data.keys &&
-        response.data.keys.length > 0
-      ) {
-        // Convert ApiKeyListItem[] to ApiKey[] (without full key, only masked)
-        const keys: ApiKey[] = response.data.keys.map((item) => ({
-          id: item.id,
-          label: item.label,
-          masked_suffix: item.masked_suffix,
-        }));
-        setApiKeys(keys);
-        setTotalKeys(response.data.total);
-        setMaxAllowed(response.data.max_allowed);
-      } else {
-        setApiKeys([]);
-        setTotalKeys(0);
-        if (response.data) {
-          setMaxAllowed(response.data.max_allowed || 5);
-        }
-      }
-    } catch (err) {
-      let errorMessage = "Failed to fetch API keys";
-      if (err instanceof ApiError) {
-        errorMessage = err.message;
-        // Handle specific error cases
-        if (err.status === 401) {
-          errorMessage = "Session expired. Please refresh the page.";
-        } else if (err.status === 0) {
-          errorMessage =
-            "Network error: Unable to connect to the server. Please check your internet connection.";
-        } else if (err.status && err.status >= 500) {
-          errorMessage = "Server error. Please try again later.";
-        }
-      } else if (err instanceof Error) {
-        errorMessage = err.message;
-      }
-      setError(errorMessage);
-      console.error("Error fetching API keys:", err);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  // Budgets are billed per UTC calendar month, so only this month is fetched
+  const currentDate = new Date(now);
+  const monthStart = new Date(
+    Date.UTC(currentDate.getUTCFullYear(), currentDate.getUTCMonth(), 1)
+  ).toISOString();
+  const budgetStatsQuery = useQuery(
+    apiKeyStatsQuery({
+      key_id: null,
+      date_from: monthStart,
+      date_to: null,
+      consumed_by: null,
+      include_chart_data: false,
+      charts_only: false,
+    })
+  );
+  const budgetStats = budgetStatsQuery.data?.data;
+  const budgetsByKeyId = new Map(
+    (budgetStats && "keys" in budgetStats ? budgetStats.keys : []).map(
+      (item) => [item.key_id, item.budget]
+    )
+  );
+  // Editing without the current budget could silently overwrite it
+  const canEditBudgets = !!budgetStats && !budgetStatsQuery.error;
+  const budgetError = budgetStatsQuery.error
+    ? `Budgets could not be loaded. ${
+        describeApiError(budgetStatsQuery.error, "stats").message
+      }`
+    : null;
 
   const handleCopy = (key: string) => {
     navigator.clipboard.writeText(key);
@@ -91,52 +629,101 @@ export function ApiKey() {
     setTimeout(() => setCopied(null), 2000);
   };
 
-  const handleGenerateNew = async () => {
-    setIsCreating(true);
+  const openCreateForm = () => {
     setError(null);
     setNewlyCreatedKey(null);
+    setIsCreateFormOpen(true);
+  };
+
+  const handleGenerateNew = async (details: CreateApiKeyRequest) => {
+    setIsCreating(true);
+    setError(null);
     try {
-      const response = await createApiKeyEndpoint();
+      const response = await createApiKeyEndpoint({
+        label: details.label,
+        // Leave out optional details that were not filled in
+        description: details.description || undefined,
+        owner: details.owner || undefined,
+        scopes: details.scopes,
+        expires_at: details.expires_at,
+      });
       if (response.data && response.data.api_key) {
         const fullKey = response.data.api_key;
 
         // Store the newly created key to show it prominently
         setNewlyCreatedKey(fullKey);
-        setTotalKeys(response.data.total_keys);
-        setMaxAllowed(response.data.max_allowed);
+        setIsCreateFormOpen(false);
 
         // Refetch the list to get the updated keys from the server
-        await fetchApiKeys();
+        invalidateApiKeyQueries();
 
         // Note: The newly created key will remain visible until user dismisses it
         // This ensures users have time to copy the key securely
       }
     } catch (err) {
-      let errorMessage = "Failed to create API key";
-      if (err instanceof ApiError) {
-        errorMessage = err.message;
-        // Handle specific error cases
-        if (err.status === 401) {
-          errorMessage = "Session expired. Please refresh the page.";
-        } else if (err.status === 0) {
-          errorMessage =
-            "Network error: Unable to connect to the server. Please check your internet connection.";
-        } else if (err.status === 403) {
-          errorMessage =
-            "You have reached the maximum number of API keys allowed.";
-        } else if (err.status && err.status >= 500) {
-          errorMessage = "Server error. Please try again later.";
-        }
-      } else if (err instanceof Error) {
-        errorMessage = err.message;
-      }
-      setError(errorMessage);
+      setError(describeApiError(err, "create_api_key").message);
       console.error("Error creating API key:", err);
     } finally {
       setIsCreating(false);
     }
   };
 
+  const handleUpdate = async (
+    keyId: number | string,
+    details: CreateApiKeyRequest
+  ) => {
+    setIsSavingEdit(true);
+    setError(null);
+    try {
+      await updateApiKeyEndpoint(keyId, details);
+      setEditingKeyId(null);
+      // The label also shows in the Overview and Usage key pickers
+      invalidateApiKeyQueries();
+    } catch (err) {
+      setError(describeApiError(err, "update_api_key").message);
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
+  const handleRotate = async (
+    keyId: number | string,
+    gracePeriodHours: number
+  ) => {
+    setIsRotating(true);
+    setError(null);
+    setNewlyCreatedKey(null);
+    try {
+      const response = await rotateApiKeyEndpoint(keyId, gracePeriodHours);
+      // Shown once, like a newly created key
+      setNewlyCreatedKey(response.data.api_key);
+      setRotatingKeyId(null);
+      invalidateApiKeyQueries();
+    } catch (err) {
+      setError(describeApiError(err, "rotate_api_key").message);
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  const handleSaveBudget = async (
+    keyId: number | string,
+    budget: ApiKeyBudgetRequest
+  ) => {
+    setIsSavingBudget(true);
+    setError(null);
+    try {
+      await setApiKeyBudgetEndpoint(keyId, budget);
+      setBudgetKeyId(null);
+      // Budget state comes back with the stats
+      invalidateApiKeyQueries();
+    } catch (err) {
+      setError(describeApiError(err, "update_budget").message);
+    } finally {
+      setIsSavingBudget(false);
+    }
+  };
+
   const handleDelete = async (keyId: number | string) => {
     if (
       !confirm(
@@ -146,36 +733,17 @@ export function ApiKey() {
       return;
     }
 
-    setIsLoading(true);
+    setIsDeleting(true);
     setError(null);
     try {
       await deleteApiKeyEndpoint(keyId);
-      // Remove the deleted key from the list
-      setApiKeys((prev) => prev.filter((key) => key.id !== keyId));
-      // Refetch to update the total count
-      fetchApiKeys();
+      // Refetch the key list and any stats that include the deleted key
+      invalidateApiKeyQueries();
     } catch (err) {
-      let errorMessage = "Failed to delete API key";
-      if (err instanceof ApiError) {
-        errorMessage = err.message;
-        // Handle specific error cases
-        if (err.status === 401) {
-          errorMessage = "Session expired. Please refresh the page.";
-        } else if (err.status === 0) {
-          errorMessage =
-            "Network error: Unable to connect to the server. Please check your internet connection.";
-        } else if (err.status === 404) {
-          errorMessage = "API key not found. It may have already been deleted.";
-        } else if (err.status && err.status >= 500) {
-          errorMessage = "Server error. Please try again later.";
-        }
-      } else if (err instanceof Error) {
-        errorMessage = err.message;
-      }
-      setError(errorMessage);
+      setError(describeApiError(err, "delete_api_key").message);
       console.error("Error deleting API key:", err);
     } finally {
-      setIsLoading(false);
+      setIsDeleting(false);
     }
   };
 
@@ -207,27 +775,60 @@ export function ApiKey() {
             Manage your API keys for accessing the API endpoints
           </p>
         </div>
-        <Button
-          variant="default"
-          onClick={handleGenerateNew}
-          disabled={isCreating || isLoading || totalKeys >= maxAllowed}
-          className="bg-[#00c950] hover:bg-[#00b045] text-white font-medium shadow-sm"
-        >
-          <RefreshCircle size={18} className="mr-2" />
-          {isCreating
-            ? "Creating..."
-            : totalKeys >= maxAllowed
-            ? `Limit Reached (${maxAllowed})`
-            : "Generate New Key"}
-        </Button>
+        {canCreate && (
+          <Button
+            variant="default"
+            onClick={openCreateForm}
+            disabled={
+              isCreateFormOpen ||
+              isCreating ||
+              isLoading ||
+              totalKeys >= maxAllowed
+            }
+            className="bg-[#00c950] hover:bg-[#00b045] text-white font-medium shadow-sm"
+          >
+            <RefreshCircle size={18} className="mr-2" />
+            {isCreating
+              ? "Creating..."
+              : totalKeys >= maxAllowed
+              ? `Limit Reached (${maxAllowed})`
+              : "Generate New Key"}
+          </Button>
+        )}
       </div>
 
-      {error && (
+      {(error || listError || budgetError) && (
         <div className="animate-fade-in-up rounded-lg bg-[#ef4444]/10 dark:bg-[#ef4444]/20 border border-[#ef4444]/20 p-4 text-sm text-[#ef4444] font-medium">
-          {error}
+          {error || listError || budgetError}
         </div>
       )}
 
+      {isCreateFormOpen && (
+        <Card
+          size="sm"
+          className="animate-scale-in dashboard-card border border-[#e5e5e5] dark:border-[#1f1f1f] bg-white dark:bg-[#0a0a0a] shadow-sm"
+        >
+          <CardHeader className="border-b border-[#e5e5e5] dark:border-[#1f1f1f] pb-3">
+            <CardTitle className="text-base font-semibold text-black dark:text-white">
+              New API key
+            </CardTitle>
+            <CardDescription className="text-[#666666] dark:text-[#999999] mt-1 text-xs">
+              Name the key after where it is used so you can tell keys apart.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-4">
+            <ApiKeyDetailsForm
+              isNewKey
+              submitLabel="Generate Key"
+              savingLabel="Creating..."
+              isSaving={isCreating}
+              onSubmit={handleGenerateNew}
+              onCancel={() => setIsCreateFormOpen(false)}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {newlyCreatedKey && (
         <Card
           size="sm"
@@ -289,16 +890,20 @@ export function ApiKey() {
                 <p className="mb-4 text-[#666666] dark:text-[#999999]">
                   No API keys found.
                 </p>
-                <Button
-                  onClick={handleGenerateNew}
-                  disabled={isCreating || totalKeys >= maxAllowed}
-                  className="bg-[#00c950] hover:bg-[#00b045] text-white font-medium shadow-sm"
-                >
-                  <RefreshCircle size={18} className="mr-2" />
-                  {totalKeys >= maxAllowed
-                    ? `Limit Reached (${maxAllowed})`
-                    : "Create Your First API Key"}
-                </Button>
+                {canCreate && (
+                  <Button
+                    onClick={openCreateForm}
+                    disabled={
+                      isCreateFormOpen || isCreating || totalKeys >= maxAllowed
+                    }
+                    className="bg-[#00c950] hover:bg-[#00b045] text-white font-medium shadow-sm"
+                  >
+                    <RefreshCircle size={18} className="mr-2" />
+                    {totalKeys >= maxAllowed
+                      ? `Limit Reached (${maxAllowed})`
+                      : "Create Your First API Key"}
+                  </Button>
+                )}
               </div>
             ) : (
               <div className="space-y-4">
@@ -307,6 +912,20 @@ export function ApiKey() {
                   const isKeyVisible = isVisible[keyIdStr];
                   const displayValue = getKeyDisplayValue(key);
                   const hasFullKey = !!key.key;
+                  const isExpired = isApiKeyExpired(key, now);
+                  const isExpiringSoon = isApiKeyExpiringSoon(key, now);
+                  const successor =
+                    key.rotated_to_key_id != null
+                      ? keysById.get(key.rotated_to_key_id)
+                      : undefined;
+                  const predecessor =
+                    key.rotated_from_key_id != null
+                      ? keysById.get(key.rotated_from_key_id)
+                      : undefined;
+                  const isRotatingOut = !isExpired && !!key.rotated_to_key_id;
+                  const isRotatable =
+                    canRotate && !isExpired && !key.rotated_to_key_id;
+                  const budget = budgetsByKeyId.get(Number(key.id));
 
                   // Staggered animation delay
                   const delayClass =
@@ -328,29 +947,163 @@ export function ApiKey() {
                       className={`animate-fade-in-up ${delayClass} space-y-3 p-4 rounded-lg border border-[#e5e5e5] dark:border-[#1f1f1f] bg-[#fafafa] dark:bg-[#111111]`}
                     >
                       <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-3">
-                          <Badge
-                            variant="default"
-                            className="bg-[#00c950] text-white font-medium"
-                          >
-                            Active
-                          </Badge>
+                        <div className="flex flex-wrap items-center gap-2">
+                          {isExpired ? (
+                            <Badge variant="destructive" className="font-medium">
+                              Expired
+                            </Badge>
+                          ) : isRotatingOut ? (
+                            <Badge className="bg-[#f59e0b] text-white font-medium">
+                              Rotating out
+                            </Badge>
+                          ) : (
+                            <Badge
+                              variant="default"
+                              className="bg-[#00c950] text-white font-medium"
+                            >
+                              Active
+                            </Badge>
+                          )}
                           {key.label && (
-                            <span className="text-sm text-[#666666] dark:text-[#999999]">
+                            <span className="text-sm font-medium text-black dark:text-white">
                               {key.label}
                             </span>
                           )}
+                          {key.scopes?.length ? (
+                            key.scopes.map((scope) => (
+                              <Badge key={scope} variant="outline">
+                                {API_KEY_SCOPE_LABELS[scope]}
+                              </Badge>
+                            ))
+                          ) : (
+                            <Badge variant="outline">All products</Badge>
+                          )}
+                          {key.expires_at && (
+                            <span
+                              className={`flex items-center gap-1 text-xs ${
+                                isExpired
+                                  ? "text-[#ef4444]"
+                                  : isExpiringSoon
+                                  ? "text-[#f59e0b] font-medium"
+                                  : "text-[#666666] dark:text-[#999999]"
+                              }`}
+                              title={new Date(key.expires_at).toLocaleString()}
+                            >
+                              <ClockCircle size={14} />
+                              {formatTimeToExpiry(key.expires_at, now)}
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-1">
+                          {isRotatable && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setRotatingKeyId(keyIdStr)}
+                              disabled={isLoading || rotatingKeyId !== null}
+                              className="text-[#666666] dark:text-[#999999] hover:text-black dark:hover:text-white hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a]"
+                              title="Rotate key"
+                            >
+                              <Restart size={16} />
+                            </Button>
+                          )}
+                          {!isExpired && (
+                            <Can permission="api_keys:edit">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setBudgetKeyId(keyIdStr)}
+                                disabled={
+                                  isLoading ||
+                                  budgetKeyId !== null ||
+                                  !canEditBudgets
+                                }
+                                className="text-[#666666] dark:text-[#999999] hover:text-black dark:hover:text-white hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a]"
+                                title="Set budget"
+                              >
+                                <Wallet size={16} />
+                              </Button>
+                            </Can>
+                          )}
+                          <Can permission="api_keys:edit">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setEditingKeyId(keyIdStr)}
+                              disabled={isLoading || editingKeyId !== null}
+                              className="text-[#666666] dark:text-[#999999] hover:text-black dark:hover:text-white hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a]"
+                              title="Edit details"
+                            >
+                              <Pen size={16} />
+                            </Button>
+                          </Can>
+                          <Can permission="api_keys:delete">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(key.id)}
+                              disabled={isLoading}
+                              className="text-[#ef4444] hover:text-[#ef4444] hover:bg-[#ef4444]/10"
+                            >
+                              <HugeiconsIcon icon={Delete01Icon} size={16} />
+                            </Button>
+                          </Can>
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDelete(key.id)}
-                          disabled={isLoading}
-                          className="text-[#ef4444] hover:text-[#ef4444] hover:bg-[#ef4444]/10"
-                        >
-                          <HugeiconsIcon icon={Delete01Icon} size={16} />
-                        </Button>
                       </div>
+                      {editingKeyId === keyIdStr ? (
+                        <ApiKeyDetailsForm
+                          initial={{
+                            label: key.label,
+                            description: key.description ?? "",
+                            owner: key.owner ?? "",
+                          }}
+                          submitLabel="Save"
+                          savingLabel="Saving..."
+                          isSaving={isSavingEdit}
+                          onSubmit={(details) => handleUpdate(key.id, details)}
+                          onCancel={() => setEditingKeyId(null)}
+                        />
+                      ) : (
+                        (key.description || key.owner) && (
+                          <p className="text-xs text-[#666666] dark:text-[#999999]">
+                            {key.description}
+                            {key.description && key.owner && " · "}
+                            {key.owner && `Owner: ${key.owner}`}
+                          </p>
+                        )
+                      )}
+                      {(successor || predecessor) && (
+                        <p className="text-xs text-[#666666] dark:text-[#999999]">
+                          {successor ? (
+                            <>
+                              Replaced by {formatApiKeyName(successor)}.
+                              Revoked automatically when the grace period
+                              ends.
+                            </>
+                          ) : (
+                            predecessor &&
+                            `Replaces ${formatApiKeyName(predecessor)}`
+                          )}
+                        </p>
+                      )}
+                      {budget && <BudgetBar budget={budget} />}
+                      {budgetKeyId === keyIdStr && canEditBudgets && (
+                        <BudgetForm
+                          initial={budget ?? undefined}
+                          isSaving={isSavingBudget}
+                          onSubmit={(newBudget) =>
+                            handleSaveBudget(key.id, newBudget)
+                          }
+                          onCancel={() => setBudgetKeyId(null)}
+                        />
+                      )}
+                      {rotatingKeyId === keyIdStr && (
+                        <RotateKeyPanel
+                          isRotating={isRotating}
+                          onRotate={(hours) => handleRotate(key.id, hours)}
+                          onCancel={() => setRotatingKeyId(null)}
+                        />
+                      )}
                       <div className="flex gap-2">
                         <Input
                           id={`api-key-${keyIdStr}`}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import {
   Card,
   CardContent,
@@ -16,15 +16,17 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { RefreshCircle } from "@solar-icons/react";
+import { DangerTriangle, RefreshCircle } from "@solar-icons/react";
 import {
-  getApiKeyStatsEndpoint,
-  listApiKeysEndpoint,
   type OverviewStatsResponseData,
   type ApiKeyStatsItem,
-  type ApiKeyListItem,
-  ApiError,
+  type ApiKeyScope,
 } from "@/lib/api/endpoints";
+import { describeApiError } from "@/lib/api/errorMessages";
+import { apiKeysQuery, apiKeyStatsQuery } from "@/lib/api/queries";
+import { useQuery } from "@/lib/api/useQuery";
+import { usePermission } from "@/lib/session/useSession";
+import { useNow } from "@/lib/useNow";
 import {
   LineChart,
   Line,
@@ -37,103 +39,73 @@ import {
   Legend,
   ResponsiveContainer,
 } from "recharts";
+import {
+  API_KEY_SCOPE_LABELS,
+  EXPIRY_WARNING_DAYS,
+  formatApiKeyName,
+  formatTimeToExpiry,
+  isApiKeyExpired,
+  isApiKeyExpiringSoon,
+} from "../apiKeyFormat";
+import { dateInputToIso } from "../dateRange";
 
 export function Overview() {
-  const [overviewData, setOverviewData] =
-    useState<OverviewStatsResponseData | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [dateFrom, setDateFrom] = useState<string>("");
   const [dateTo, setDateTo] = useState<string>("");
-  const [apiKeys, setApiKeys] = useState<ApiKeyListItem[]>([]);
   const [selectedKeyId, setSelectedKeyId] = useState<number | null>(null);
-  const [isLoadingKeys, setIsLoadingKeys] = useState(true);
 
-  // Fetch API keys function
-  const fetchApiKeys = async () => {
-    setIsLoadingKeys(true);
-    try {
-      const response = await listApiKeysEndpoint();
-      if (
-        response.data &&
-        response.data.keys &&
-        response.data.keys.length > 0
-      ) {
-        setApiKeys(response.data.keys);
-      } else {
-        setApiKeys([]);
-      }
-    } catch (err) {
-      console.error("Error fetching API keys:", err);
-      // Don't show error for API keys fetch failure in Overview, just log it
-      // The error will be shown when user tries to filter by key
-      setApiKeys([]);
-    } finally {
-      setIsLoadingKeys(false);
-    }
-  };
-
-  // Refresh all dashboard data
-  const refreshDashboard = async () => {
-    await Promise.all([fetchApiKeys(), fetchStats()]);
-  };
+  // Don't show error for API keys fetch failure in Overview, the list is just empty
+  // The error will be shown when user tries to filter by key
+  // Roles without access to keys see the account totals only
+  const canViewKeys = usePermission("api_keys:view");
+  const keysQuery = useQuery(apiKeysQuery(), { enabled: canViewKeys });
+  const now = useNow();
+  const allKeys = canViewKeys ? keysQuery.data?.data?.keys ?? [] : [];
+  // Expired keys can't be used any more, so they are not offered as filters
+  const apiKeys = allKeys.filter((key) => !isApiKeyExpired(key, now));
+  // Keys being rotated out already have a replacement
+  const expiringKeys = apiKeys.filter(
+    (key) => isApiKeyExpiringSoon(key, now) && !key.rotated_to_key_id
+  );
+  const isLoadingKeys = keysQuery.isLoading;
 
-  // Fetch API keys on mount
-  useEffect(() => {
-    fetchApiKeys();
-  }, []);
+  const dateFromIso = dateFrom ? dateInputToIso(dateFrom) : null;
+  const dateToIso = dateTo ? dateInputToIso(dateTo, true) : null;
+  const isDateFromInvalid = !!dateFrom && !dateFromIso;
+  const isDateToInvalid = !!dateTo && !dateToIso;
 
-  useEffect(() => {
-    fetchStats();
-  }, [dateFrom, dateTo, selectedKeyId]);
+  const statsQuery = useQuery(
+    apiKeyStatsQuery({
+      key_id: canViewKeys ? selectedKeyId : null, // null means all data, otherwise filter by selected key
+      date_from: dateFromIso,
+      date_to: dateToIso,
+      consumed_by: null, // null means all consumed_by types
+      granularity: "daily",
+      include_chart_data: true,
+      charts_only: false,
+    }),
+    { enabled: !isDateFromInvalid && !isDateToInvalid }
+  );
+  const isLoading = statsQuery.isLoading;
+  const error = statsQuery.error
+    ? describeApiError(statsQuery.error, "stats")
+    : null;
 
-  const fetchStats = async () => {
-    setIsLoading(true);
-    setError(null);
-    try {
-      const response = await getApiKeyStatsEndpoint({
-        key_id: selectedKeyId, // null means all data, otherwise filter by selected key
-        date_from: dateFrom ? new Date(dateFrom).toISOString() : null,
-        date_to: dateTo ? new Date(dateTo + "T23:59:59").toISOString() : null,
-        consumed_by: null, // null means all consumed_by types
-        granularity: "daily",
-        include_chart_data: true,
-        charts_only: false,
-      });
+  // Handle both old format (single object) and new format (keys array)
+  const statsData = statsQuery.data?.data;
+  const overviewData: OverviewStatsResponseData | null = !statsData
+    ? null
+    : "keys" in statsData
+    ? statsData
+    : // When a single key is selected, wrap it in keys array for consistency
+      { keys: [statsData as ApiKeyStatsItem] };
 
-      if (response.data) {
-        // Handle both old format (single object) and new format (keys array)
-        if ("keys" in response.data) {
-          setOverviewData(response.data as OverviewStatsResponseData);
-        } else {
-          // When a single key is selected, wrap it in keys array for consistency
-          const singleKeyData = response.data as any;
-          setOverviewData({ keys: [singleKeyData] });
-        }
-      }
-    } catch (err) {
-      let errorMessage = "Failed to fetch stats";
-      if (err instanceof ApiError) {
-        errorMessage = err.message;
-        // Handle specific error cases
-        if (err.status === 401) {
-          errorMessage = "Session expired. Please refresh the page.";
-        } else if (err.status === 0) {
-          errorMessage =
-            "Network error: Unable to connect to the server. Please check your internet connection.";
-        } else if (err.status === 404) {
-          errorMessage = "Stats not found. Please check your filters.";
-        } else if (err.status && err.status >= 500) {
-          errorMessage = "Server error. Please try again later.";
-        }
-      } else if (err instanceof Error) {
-        errorMessage = err.message;
-      }
-      setError(errorMessage);
-      console.error("Error fetching stats:", err);
-    } finally {
-      setIsLoading(false);
-    }
+  // Refresh all dashboard data, bypassing the cache
+  const refreshDashboard = async () => {
+    await Promise.allSettled([
+      canViewKeys && keysQuery.refetch(),
+      statsQuery.refetch(),
+    ]);
   };
 
   // Aggregate data from all keys
@@ -225,16 +197,7 @@ export function Overview() {
 
   // Prepare data for usage distribution chart
   const distributionData = Object.entries(creditsByType).map(([key, value]) => {
-    const label =
-      key === "media_simulation"
-        ? "Media"
-        : key === "concept_simulation"
-        ? "Concept Test"
-        : key === "persona_generation_clustering"
-        ? "Persona"
-        : key === "product_ocr"
-        ? "Product"
-        : key;
+    const label = API_KEY_SCOPE_LABELS[key as ApiKeyScope] ?? key;
     return {
       name: label,
       credits: Number(value.toFixed(2)),
@@ -266,6 +229,7 @@ export function Overview() {
               type="date"
               value={dateFrom}
               onChange={(e) => setDateFrom(e.target.value)}
+              aria-invalid={isDateFromInvalid}
               className="w-[150px] border-[#e5e5e5] dark:border-[#1f1f1f] bg-white dark:bg-[#0a0a0a] text-black dark:text-white focus:border-[#00c950] focus:ring-[#00c950]/20"
             />
           </div>
@@ -281,6 +245,7 @@ export function Overview() {
               type="date"
               value={dateTo}
               onChange={(e) => setDateTo(e.target.value)}
+              aria-invalid={isDateToInvalid}
               className="w-[150px] border-[#e5e5e5] dark:border-[#1f1f1f] bg-white dark:bg-[#0a0a0a] text-black dark:text-white focus:border-[#00c950] focus:ring-[#00c950]/20"
               min={dateFrom || undefined}
             />
@@ -299,57 +264,113 @@ export function Overview() {
             </Button>
           )}
           <div className="flex items-center gap-2">
-            <label className="text-sm text-[#666666] dark:text-[#999999] whitespace-nowrap font-medium">
-              API Key:
-            </label>
-            <Select
-              value={selectedKeyId?.toString() || "all"}
-              onValueChange={(value) =>
-                setSelectedKeyId(value === "all" ? null : Number(value))
-              }
-              disabled={isLoadingKeys || apiKeys.length === 0}
-            >
-              <SelectTrigger className="w-[200px] border-[#e5e5e5] dark:border-[#1f1f1f] bg-white dark:bg-[#0a0a0a] text-black dark:text-white focus:border-[#00c950] focus:ring-[#00c950]/20">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent className="bg-white dark:bg-[#111111] border-[#e5e5e5] dark:border-[#1f1f1f]">
-                <SelectItem value="all" className="text-black dark:text-white">
-                  All API keys
-                </SelectItem>
-                {apiKeys.map((key) => (
-                  <SelectItem
-                    key={key.id}
-                    value={key.id.toString()}
-                    className="text-black dark:text-white"
-                  >
-                    ........{key.masked_suffix}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+            {canViewKeys && (
+              <>
+                <label className="text-sm text-[#666666] dark:text-[#999999] whitespace-nowrap font-medium">
+                  API Key:
+                </label>
+                <Select
+                  value={selectedKeyId?.toString() || "all"}
+                  items={{
+                    all: "All API keys",
+                    ...Object.fromEntries(
+                      apiKeys.map((key) => [key.id, formatApiKeyName(key)])
+                    ),
+                  }}
+                  onValueChange={(value) =>
+                    setSelectedKeyId(value === "all" ? null : Number(value))
+                  }
+                  disabled={isLoadingKeys || apiKeys.length === 0}
+                >
+                  <SelectTrigger className="w-[200px] border-[#e5e5e5] dark:border-[#1f1f1f] bg-white dark:bg-[#0a0a0a] text-black dark:text-white focus:border-[#00c950] focus:ring-[#00c950]/20">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-white dark:bg-[#111111] border-[#e5e5e5] dark:border-[#1f1f1f]">
+                    <SelectItem value="all" className="text-black dark:text-white">
+                      All API keys
+                    </SelectItem>
+                    {apiKeys.map((key) => (
+                      <SelectItem
+                        key={key.id}
+                        value={key.id.toString()}
+                        className="text-black dark:text-white"
+                      >
+                        {formatApiKeyName(key)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </>
+            )}
             <Button
               variant="outline"
               size="sm"
               onClick={refreshDashboard}
-              disabled={isLoadingKeys || isLoading}
+              disabled={keysQuery.isFetching || statsQuery.isFetching}
               className="border-[#e5e5e5] dark:border-[#1f1f1f] hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a] text-black dark:text-white"
               title="Refresh dashboard"
             >
               <RefreshCircle
                 size={18}
-                className={isLoadingKeys || isLoading ? "animate-spin" : ""}
+                className={
+                  keysQuery.isFetching || statsQuery.isFetching
+                    ? "animate-spin"
+                    : ""
+                }
               />
             </Button>
           </div>
         </div>
       </div>
+      {expiringKeys.length > 0 && (
+        <div className="animate-fade-in-up flex items-start gap-3 rounded-lg border border-[#f59e0b]/40 bg-[#f59e0b]/10 px-4 py-3 text-sm text-[#b45309] dark:text-[#f59e0b]">
+          <DangerTriangle size={18} className="mt-0.5 shrink-0" />
+          <div className="space-y-1">
+            <p className="font-medium">
+              {expiringKeys.length === 1
+                ? "1 API key expires"
+                : `${expiringKeys.length} API keys expire`}{" "}
+              within {EXPIRY_WARNING_DAYS} days. Replace{" "}
+              {expiringKeys.length === 1 ? "it" : "them"} before requests
+              start failing.
+            </p>
+            <ul className="text-xs">
+              {expiringKeys.map((key) => (
+                <li key={key.id}>
+                  {formatApiKeyName(key)} -{" "}
+                  {key.expires_at &&
+                    formatTimeToExpiry(key.expires_at, now).toLowerCase()}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+      {(isDateFromInvalid || isDateToInvalid) && (
+        <div className="animate-fade-in-up rounded-lg bg-[#ef4444]/10 dark:bg-[#ef4444]/20 border border-[#ef4444]/20 p-4 text-sm text-[#ef4444] font-medium">
+          Enter a valid date to filter the stats.
+        </div>
+      )}
       {error && (
         <Card
           size="sm"
           className="animate-fade-in-up border-[#ef4444] bg-[#ef4444]/5 dark:bg-[#ef4444]/10"
         >
-          <CardContent className="pt-4">
-            <div className="text-[#ef4444] text-xs font-medium">{error}</div>
+          <CardContent className="pt-4 flex items-center justify-between gap-4">
+            <div className="text-[#ef4444] text-xs font-medium">
+              {error.message}
+            </div>
+            {error.action === "retry" && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={refreshDashboard}
+                disabled={statsQuery.isFetching}
+                className="border-[#ef4444]/40 text-[#ef4444] hover:bg-[#ef4444]/10"
+              >
+                {error.actionLabel}
+              </Button>
+            )}
           </CardContent>
         </Card>
       )}
@@ -0,0 +1,265 @@
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Copy, ShieldCheck } from "@solar-icons/react";
+import {
+  confirmTwoFactorEnrollmentEndpoint,
+  disableTwoFactorEndpoint,
+  startTwoFactorEnrollmentEndpoint,
+  type TwoFactorEnrollmentData,
+} from "@/lib/api/endpoints";
+import { describeApiError } from "@/lib/api/errorMessages";
+import { invalidateUserProfile } from "@/lib/api/queries";
+import { useCurrentUser } from "@/lib/session/useSession";
+
+function TwoFactorSettings() {
+  const user = useCurrentUser();
+  const isEnabled = !!user?.two_factor_enabled;
+  // Secret being set up, until it is confirmed with a code
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollmentData | null>(
+    null
+  );
+  // Shown once, right after 2FA is enabled
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isDisabling, setIsDisabling] = useState(false);
+  const [code, setCode] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const reset = () => {
+    setEnrollment(null);
+    setIsDisabling(false);
+    setCode("");
+    setError(null);
+  };
+
+  const handleStart = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await startTwoFactorEnrollmentEndpoint();
+      setEnrollment(response.data);
+    } catch (err) {
+      setError(describeApiError(err, "two_factor_setup").message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await confirmTwoFactorEnrollmentEndpoint(code.trim());
+      setRecoveryCodes(response.data.recovery_codes);
+      reset();
+      invalidateUserProfile();
+    } catch (err) {
+      setError(describeApiError(err, "two_factor_setup").message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      await disableTwoFactorEndpoint(code.trim());
+      reset();
+      invalidateUserProfile();
+    } catch (err) {
+      setError(describeApiError(err, "two_factor").message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCopyCodes = () => {
+    if (!recoveryCodes) return;
+    navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const codeInput = (
+    <div className="space-y-2">
+      <Label htmlFor="totp-code">Authentication code</Label>
+      <Input
+        id="totp-code"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        placeholder="123456"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        required
+        disabled={isLoading}
+        className="max-w-xs"
+      />
+    </div>
+  );
+
+  return (
+    <Card
+      size="sm"
+      className="dashboard-card border border-[#e5e5e5] dark:border-[#1f1f1f] bg-white dark:bg-[#0a0a0a] shadow-sm"
+    >
+      <CardHeader className="border-b border-[#e5e5e5] dark:border-[#1f1f1f] pb-3">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-base font-semibold text-black dark:text-white">
+              Two-factor authentication
+            </CardTitle>
+            <CardDescription className="text-[#666666] dark:text-[#999999] mt-1 text-xs">
+              Require a code from an authenticator app when you log in.
+            </CardDescription>
+          </div>
+          <Badge
+            variant={isEnabled ? "default" : "outline"}
+            className={isEnabled ? "bg-[#00c950] text-white font-medium" : ""}
+          >
+            {isEnabled ? "Enabled" : "Disabled"}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 pt-4">
+        {error && (
+          <div className="animate-fade-in-up rounded-lg bg-[#ef4444]/10 dark:bg-[#ef4444]/20 border border-[#ef4444]/20 p-3 text-sm text-[#ef4444] font-medium">
+            {error}
+          </div>
+        )}
+
+        {recoveryCodes && (
+          <div className="animate-scale-in space-y-3 rounded-lg border border-[#00c950] bg-[#00c950]/5 dark:bg-[#00c950]/10 p-4">
+            <p className="text-sm font-semibold text-[#00c950]">
+              Save your recovery codes
+            </p>
+            <p className="text-xs text-[#666666] dark:text-[#999999]">
+              Each code can be used once to log in if you lose access to your
+              authenticator app. This is the only time they are shown.
+            </p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm text-black dark:text-white">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={handleCopyCodes}
+                className="border-[#00c950] text-[#00c950] hover:bg-[#00c950]/10 dark:hover:bg-[#00c950]/20"
+              >
+                <Copy size={18} className="mr-2" />
+                {copied ? "Copied!" : "Copy codes"}
+              </Button>
+              <Button variant="ghost" onClick={() => setRecoveryCodes(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {enrollment ? (
+          <form onSubmit={handleConfirm} className="space-y-4">
+            <p className="text-sm text-[#666666] dark:text-[#999999]">
+              Scan this QR code with your authenticator app, then enter the
+              6-digit code it shows.
+            </p>
+            <img
+              src={enrollment.qr_code}
+              alt="Two-factor QR code"
+              className="h-44 w-44 rounded-lg border border-[#e5e5e5] dark:border-[#1f1f1f] bg-white p-2"
+            />
+            <p className="text-xs text-[#666666] dark:text-[#999999]">
+              Can't scan it? Enter this key manually:{" "}
+              <span className="font-mono text-black dark:text-white break-all">
+                {enrollment.secret}
+              </span>
+            </p>
+            {codeInput}
+            <div className="flex gap-2">
+              <Button
+                type="submit"
+                disabled={isLoading}
+                className="bg-[#00c950] hover:bg-[#00b045] text-white"
+              >
+                {isLoading ? "Verifying..." : "Enable"}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={reset}
+                disabled={isLoading}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : isDisabling ? (
+          <form onSubmit={handleDisable} className="space-y-4">
+            <p className="text-sm text-[#666666] dark:text-[#999999]">
+              Enter a code from your authenticator app or a recovery code to
+              turn off two-factor authentication.
+            </p>
+            {codeInput}
+            <div className="flex gap-2">
+              <Button type="submit" variant="destructive" disabled={isLoading}>
+                {isLoading ? "Disabling..." : "Disable"}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={reset}
+                disabled={isLoading}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : isEnabled ? (
+          <Button variant="outline" onClick={() => setIsDisabling(true)}>
+            Disable two-factor authentication
+          </Button>
+        ) : (
+          <Button
+            onClick={handleStart}
+            disabled={isLoading || !user}
+            className="bg-[#00c950] hover:bg-[#00b045] text-white"
+          >
+            <ShieldCheck size={18} className="mr-2" />
+            {isLoading ? "Starting..." : "Set up two-factor authentication"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function Security() {
+  return (
+    <div className="space-y-6">
+      <div className="dashboard-header pb-4 border-b border-[#e5e5e5] dark:border-[#1f1f1f]">
+        <h1 className="text-3xl font-bold text-black dark:text-white mb-1">
+          Security
+        </h1>
+        <p className="text-sm text-[#666666] dark:text-[#999999]">
+          Protect your account and the API keys it holds
+        </p>
+      </div>
+
+      <TwoFactorSettings />
+    </div>
+  );
+}
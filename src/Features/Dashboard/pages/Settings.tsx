@@ -0,0 +1,516 @@
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Field,
+  FieldError,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  changePasswordEndpoint,
+  revokeAllSessionsEndpoint,
+  revokeSessionEndpoint,
+  updateUserProfileEndpoint,
+  type UpdateUserProfileRequest,
+} from "@/lib/api/endpoints";
+import { describeApiError } from "@/lib/api/errorMessages";
+import {
+  invalidateSessions,
+  invalidateUserProfile,
+  sessionsQuery,
+} from "@/lib/api/queries";
+import { useQuery } from "@/lib/api/useQuery";
+import { clearSession } from "@/lib/session/session";
+import { useCurrentUser } from "@/lib/session/useSession";
+import { getPasswordIssues } from "@/lib/validation";
+import { PasswordStrengthMeter } from "@/Features/PasswordReset";
+
+const cardClassName =
+  "dashboard-card border border-[#e5e5e5] dark:border-[#1f1f1f] bg-white dark:bg-[#0a0a0a] shadow-sm";
+
+function SectionHeader({
+  title,
+  description,
+}: {
+  title: string;
+  description: string;
+}) {
+  return (
+    <CardHeader className="border-b border-[#e5e5e5] dark:border-[#1f1f1f] pb-3">
+      <CardTitle className="text-base font-semibold text-black dark:text-white">
+        {title}
+      </CardTitle>
+      <CardDescription className="text-[#666666] dark:text-[#999999] mt-1 text-xs">
+        {description}
+      </CardDescription>
+    </CardHeader>
+  );
+}
+
+function StatusMessage({
+  error,
+  success,
+}: {
+  error: string | null;
+  success: string | null;
+}) {
+  if (error) {
+    return (
+      <div className="animate-fade-in-up rounded-lg bg-[#ef4444]/10 dark:bg-[#ef4444]/20 border border-[#ef4444]/20 p-3 text-sm text-[#ef4444] font-medium">
+        {error}
+      </div>
+    );
+  }
+  if (success) {
+    return (
+      <div className="animate-fade-in-up rounded-lg bg-[#00c950]/10 dark:bg-[#00c950]/20 border border-[#00c950]/20 p-3 text-sm text-[#00c950] font-medium">
+        {success}
+      </div>
+    );
+  }
+  return null;
+}
+
+function ProfileSettings() {
+  const user = useCurrentUser();
+  // Unsaved edits; null shows the current profile
+  const [draft, setDraft] = useState<Required<UpdateUserProfileRequest> | null>(
+    null
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const values = draft ?? {
+    first_name: user?.first_name ?? "",
+    last_name: user?.last_name ?? "",
+  };
+  const isValid = !!values.first_name.trim() && !!values.last_name.trim();
+
+  const updateField =
+    (field: keyof UpdateUserProfileRequest) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setSuccess(null);
+      setDraft({ ...values, [field]: e.target.value });
+    };
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!draft || !isValid) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await updateUserProfileEndpoint({
+        first_name: draft.first_name.trim(),
+        last_name: draft.last_name.trim(),
+      });
+      setDraft(null);
+      setSuccess("Profile updated.");
+      invalidateUserProfile();
+    } catch (err) {
+      setError(describeApiError(err, "update_profile").message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card size="sm" className={cardClassName}>
+      <SectionHeader
+        title="Profile"
+        description="Your name as shown across the dashboard."
+      />
+      <CardContent className="pt-4">
+        <form onSubmit={handleSave} noValidate>
+          <FieldGroup className="gap-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <Field data-invalid={!!draft && !values.first_name.trim()}>
+                <FieldLabel htmlFor="firstName">First name</FieldLabel>
+                <Input
+                  id="firstName"
+                  autoComplete="given-name"
+                  value={values.first_name}
+                  onChange={updateField("first_name")}
+                  aria-invalid={!!draft && !values.first_name.trim()}
+                  disabled={isSaving || !user}
+                />
+              </Field>
+              <Field data-invalid={!!draft && !values.last_name.trim()}>
+                <FieldLabel htmlFor="lastName">Last name</FieldLabel>
+                <Input
+                  id="lastName"
+                  autoComplete="family-name"
+                  value={values.last_name}
+                  onChange={updateField("last_name")}
+                  aria-invalid={!!draft && !values.last_name.trim()}
+                  disabled={isSaving || !user}
+                />
+              </Field>
+            </div>
+            <Field>
+              <FieldLabel htmlFor="email">Email</FieldLabel>
+              <Input id="email" value={user?.email ?? ""} readOnly disabled />
+            </Field>
+            <StatusMessage error={error} success={success} />
+            <div className="flex gap-2">
+              <Button
+                type="submit"
+                disabled={isSaving || !draft || !isValid}
+                className="bg-[#00c950] hover:bg-[#00b045] text-white"
+              >
+                {isSaving ? "Saving..." : "Save changes"}
+              </Button>
+              {draft && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => setDraft(null)}
+                  disabled={isSaving}
+                >
+                  Discard
+                </Button>
+              )}
+            </div>
+          </FieldGroup>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PasswordSettings() {
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  // Field errors are shown after the first submit attempt
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const passwordIssues = getPasswordIssues(newPassword);
+  const newPasswordError =
+    isSubmitted && passwordIssues.length > 0
+      ? `Password needs: ${passwordIssues.join(", ")}`
+      : isSubmitted && newPassword === currentPassword
+      ? "Choose a password different from the current one"
+      : null;
+  const confirmError =
+    isSubmitted && confirmPassword !== newPassword
+      ? "Passwords do not match"
+      : null;
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSubmitted(true);
+    setError(null);
+    setSuccess(null);
+    if (
+      !currentPassword ||
+      passwordIssues.length > 0 ||
+      newPassword === currentPassword ||
+      confirmPassword !== newPassword
+    ) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await changePasswordEndpoint(currentPassword, newPassword);
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+      setIsSubmitted(false);
+      setSuccess("Password changed.");
+    } catch (err) {
+      setError(describeApiError(err, "change_password").message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card size="sm" className={cardClassName}>
+      <SectionHeader
+        title="Password"
+        description="Use a strong password you don't use anywhere else."
+      />
+      <CardContent className="pt-4">
+        <form onSubmit={handleSubmit} noValidate>
+          <FieldGroup className="gap-4">
+            <Field data-invalid={isSubmitted && !currentPassword}>
+              <FieldLabel htmlFor="currentPassword">
+                Current password
+              </FieldLabel>
+              <Input
+                id="currentPassword"
+                type="password"
+                autoComplete="current-password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                aria-invalid={isSubmitted && !currentPassword}
+                disabled={isSaving}
+              />
+              <FieldError>
+                {isSubmitted && !currentPassword
+                  ? "Enter your current password"
+                  : null}
+              </FieldError>
+            </Field>
+            <Field data-invalid={!!newPasswordError}>
+              <FieldLabel htmlFor="newPassword">New password</FieldLabel>
+              <Input
+                id="newPassword"
+                type="password"
+                autoComplete="new-password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                aria-invalid={!!newPasswordError}
+                disabled={isSaving}
+              />
+              {newPassword && <PasswordStrengthMeter password={newPassword} />}
+              <FieldError>{newPasswordError}</FieldError>
+            </Field>
+            <Field data-invalid={!!confirmError}>
+              <FieldLabel htmlFor="confirmNewPassword">
+                Confirm new password
+              </FieldLabel>
+              <Input
+                id="confirmNewPassword"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                aria-invalid={!!confirmError}
+                disabled={isSaving}
+              />
+              <FieldError>{confirmError}</FieldError>
+            </Field>
+            <StatusMessage error={error} success={success} />
+            <div>
+              <Button
+                type="submit"
+                disabled={isSaving}
+                className="bg-[#00c950] hover:bg-[#00b045] text-white"
+              >
+                {isSaving ? "Changing..." : "Change password"}
+              </Button>
+            </div>
+          </FieldGroup>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function AccountDetails() {
+  const user = useCurrentUser();
+  const memberSince = user?.created_at
+    ? new Date(user.created_at).toLocaleDateString("en-US", {
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+      })
+    : "—";
+
+  return (
+    <Card size="sm" className={cardClassName}>
+      <SectionHeader
+        title="Account"
+        description="Managed by your organization's administrators."
+      />
+      <CardContent className="pt-4">
+        <dl className="grid gap-4 sm:grid-cols-3 text-sm">
+          <div>
+            <dt className="text-xs font-medium text-[#666666] dark:text-[#999999] uppercase tracking-wide">
+              Role
+            </dt>
+            <dd className="mt-1 font-medium text-black dark:text-white capitalize">
+              {user?.role ?? "—"}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-xs font-medium text-[#666666] dark:text-[#999999] uppercase tracking-wide">
+              Member since
+            </dt>
+            <dd className="mt-1 font-medium text-black dark:text-white">
+              {memberSince}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-xs font-medium text-[#666666] dark:text-[#999999] uppercase tracking-wide">
+              Status
+            </dt>
+            <dd className="mt-1">
+              {user && (
+                <Badge
+                  variant={user.is_active ? "default" : "destructive"}
+                  className={
+                    user.is_active ? "bg-[#00c950] text-white font-medium" : ""
+                  }
+                >
+                  {user.is_active ? "Active" : "Inactive"}
+                </Badge>
+              )}
+            </dd>
+          </div>
+        </dl>
+      </CardContent>
+    </Card>
+  );
+}
+
+const formatDateTime = (value: string): string =>
+  new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+function SessionsSettings() {
+  const sessionsList = useQuery(sessionsQuery());
+  // Session being revoked, or "all" for sign out everywhere
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sessions = sessionsList.data?.data.sessions ?? [];
+  const listError = sessionsList.error
+    ? describeApiError(sessionsList.error, "sessions").message
+    : null;
+
+  const handleRevoke = async (sessionId: string) => {
+    setRevoking(sessionId);
+    setError(null);
+    try {
+      await revokeSessionEndpoint(sessionId);
+      invalidateSessions();
+    } catch (err) {
+      setError(describeApiError(err, "revoke_session").message);
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    if (
+      !confirm(
+        "Sign out of every device, including this one? You will need to log in again."
+      )
+    ) {
+      return;
+    }
+
+    setRevoking("all");
+    setError(null);
+    try {
+      await revokeAllSessionsEndpoint();
+      // Our refresh token is revoked too, so there is nothing left to log out
+      clearSession();
+    } catch (err) {
+      setError(describeApiError(err, "revoke_session").message);
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <Card size="sm" className={cardClassName}>
+      <CardHeader className="border-b border-[#e5e5e5] dark:border-[#1f1f1f] pb-3">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-base font-semibold text-black dark:text-white">
+              Active sessions
+            </CardTitle>
+            <CardDescription className="text-[#666666] dark:text-[#999999] mt-1 text-xs">
+              Devices where your account is signed in.
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleRevokeAll}
+            disabled={!!revoking || sessions.length === 0}
+            className="border-[#ef4444] text-[#ef4444] hover:bg-[#ef4444]/10 hover:text-[#ef4444]"
+          >
+            {revoking === "all" ? "Signing out..." : "Sign out everywhere"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 pt-4">
+        <StatusMessage error={error ?? listError} success={null} />
+        {sessionsList.isLoading && sessions.length === 0 ? (
+          <p className="text-sm text-[#666666] dark:text-[#999999]">
+            Loading sessions...
+          </p>
+        ) : (
+          <ul className="divide-y divide-[#e5e5e5] dark:divide-[#1f1f1f]">
+            {sessions.map((session) => (
+              <li
+                key={session.id}
+                className="flex items-center justify-between gap-4 py-3 first:pt-0 last:pb-0"
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="truncate text-sm font-medium text-black dark:text-white">
+                      {session.device}
+                    </span>
+                    {session.is_current && (
+                      <Badge className="bg-[#00c950] text-white font-medium">
+                        This device
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-[#666666] dark:text-[#999999]">
+                    {session.ip_address} · Last seen{" "}
+                    {formatDateTime(session.last_seen_at)} · Signed in{" "}
+                    {formatDateTime(session.created_at)}
+                  </p>
+                </div>
+                {!session.is_current && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRevoke(session.id)}
+                    disabled={!!revoking}
+                    className="shrink-0 text-[#ef4444] hover:text-[#ef4444] hover:bg-[#ef4444]/10"
+                  >
+                    {revoking === session.id ? "Signing out..." : "Sign out"}
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function Settings() {
+  return (
+    <div className="space-y-6">
+      <div className="dashboard-header pb-4 border-b border-[#e5e5e5] dark:border-[#1f1f1f]">
+        <h1 className="text-3xl font-bold text-black dark:text-white mb-1">
+          Settings
+        </h1>
+        <p className="text-sm text-[#666666] dark:text-[#999999]">
+          Manage your profile and account
+        </p>
+      </div>
+
+      <AccountDetails />
+      <ProfileSettings />
+      <PasswordSettings />
+      <SessionsSettings />
+    </div>
+  );
+}
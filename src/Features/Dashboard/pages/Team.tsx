@@ -0,0 +1,386 @@
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { UserPlus } from "@solar-icons/react";
+import {
+  cancelInvitationEndpoint,
+  inviteTeamMemberEndpoint,
+  removeTeamMemberEndpoint,
+  resendInvitationEndpoint,
+  updateTeamMemberRoleEndpoint,
+} from "@/lib/api/endpoints";
+import { describeApiError } from "@/lib/api/errorMessages";
+import {
+  invalidateTeam,
+  subscriptionPlanQuery,
+  teamQuery,
+} from "@/lib/api/queries";
+import { useQuery } from "@/lib/api/useQuery";
+import {
+  ASSIGNABLE_ROLES,
+  parseRole,
+  type Role,
+} from "@/lib/session/permissions";
+import { useCurrentUser, usePermission } from "@/lib/session/useSession";
+import { isValidEmail } from "@/lib/validation";
+
+const cardClassName =
+  "dashboard-card border border-[#e5e5e5] dark:border-[#1f1f1f] bg-white dark:bg-[#0a0a0a] shadow-sm";
+
+const formatDate = (value: string): string =>
+  new Date(value).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+// Labels for the role pickers, shown capitalized
+const ROLE_ITEMS: Record<string, string> = Object.fromEntries(
+  ASSIGNABLE_ROLES.map((role) => [role, role])
+);
+
+function RoleSelect({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: Role;
+  onChange: (role: Role) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <Select
+      value={value}
+      items={ROLE_ITEMS}
+      onValueChange={(role) => role && onChange(role)}
+      disabled={disabled}
+    >
+      <SelectTrigger className="w-[140px] capitalize border-[#e5e5e5] dark:border-[#1f1f1f] bg-white dark:bg-[#0a0a0a] text-black dark:text-white focus:border-[#00c950] focus:ring-[#00c950]/20">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-white dark:bg-[#111111] border-[#e5e5e5] dark:border-[#1f1f1f]">
+        {ASSIGNABLE_ROLES.map((role) => (
+          <SelectItem
+            key={role}
+            value={role}
+            className="capitalize text-black dark:text-white"
+          >
+            {role}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function Team() {
+  const user = useCurrentUser();
+  const canManage = usePermission("team:manage");
+  const team = useQuery(teamQuery());
+  const plan = useQuery(subscriptionPlanQuery());
+
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<Role>("developer");
+  const [isInviting, setIsInviting] = useState(false);
+  // Member or invitation with a request in flight
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const members = team.data?.data.members ?? [];
+  const invitations = team.data?.data.invitations ?? [];
+  // Pending invitations hold a seat until they are accepted or cancelled
+  const seatsUsed = members.length + invitations.length;
+  const maxSeats = plan.data?.data.max_users;
+  const isFull = maxSeats !== undefined && seatsUsed >= maxSeats;
+  const listError = team.error
+    ? describeApiError(team.error, "team").message
+    : null;
+
+  // Runs one member/invitation action, tracking it as busy
+  const runAction = async (
+    id: string,
+    action: () => Promise<unknown>,
+    successNotice?: string
+  ) => {
+    setBusyId(id);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+      invalidateTeam();
+      if (successNotice) setNotice(successNotice);
+    } catch (err) {
+      setError(describeApiError(err, "update_team").message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+    setNotice(null);
+    if (!isValidEmail(email)) {
+      setError("Enter a valid email address");
+      return;
+    }
+
+    setIsInviting(true);
+    try {
+      await inviteTeamMemberEndpoint({ email: email.trim(), role });
+      setNotice(`Invitation sent to ${email.trim()}.`);
+      setEmail("");
+      invalidateTeam();
+    } catch (err) {
+      setError(describeApiError(err, "invite_member").message);
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRemove = (memberId: string, memberEmail: string) => {
+    if (!confirm(`Remove ${memberEmail} from the team?`)) {
+      return;
+    }
+    runAction(memberId, () => removeTeamMemberEndpoint(memberId));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="dashboard-header flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 pb-4 border-b border-[#e5e5e5] dark:border-[#1f1f1f]">
+        <div>
+          <h1 className="text-3xl font-bold text-black dark:text-white mb-1">
+            Team
+          </h1>
+          <p className="text-sm text-[#666666] dark:text-[#999999]">
+            Invite people to share your plan and manage what they can do
+          </p>
+        </div>
+        {maxSeats !== undefined && (
+          <Badge
+            variant="outline"
+            className={`text-sm font-medium ${
+              isFull
+                ? "border-[#ef4444] text-[#ef4444]"
+                : "border-[#e5e5e5] dark:border-[#1f1f1f] text-black dark:text-white"
+            }`}
+          >
+            {seatsUsed} of {maxSeats} seats used
+          </Badge>
+        )}
+      </div>
+
+      {(error || listError) && (
+        <div className="animate-fade-in-up rounded-lg bg-[#ef4444]/10 dark:bg-[#ef4444]/20 border border-[#ef4444]/20 p-4 text-sm text-[#ef4444] font-medium">
+          {error || listError}
+        </div>
+      )}
+      {notice && (
+        <div className="animate-fade-in-up rounded-lg bg-[#00c950]/10 dark:bg-[#00c950]/20 border border-[#00c950]/20 p-4 text-sm text-[#00c950] font-medium">
+          {notice}
+        </div>
+      )}
+
+      {canManage && (
+        <Card size="sm" className={cardClassName}>
+          <CardHeader className="border-b border-[#e5e5e5] dark:border-[#1f1f1f] pb-3">
+            <CardTitle className="text-base font-semibold text-black dark:text-white">
+              Invite a member
+            </CardTitle>
+            <CardDescription className="text-[#666666] dark:text-[#999999] mt-1 text-xs">
+              {isFull
+                ? "All seats on your plan are taken. Upgrade or free a seat to invite more people."
+                : "They will get an email with a link to join your team."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-4">
+            <form
+              onSubmit={handleInvite}
+              className="flex flex-col sm:flex-row gap-2"
+              noValidate
+            >
+              <Input
+                type="email"
+                autoComplete="off"
+                placeholder="colleague@company.com"
+                aria-label="Email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                disabled={isInviting || isFull}
+                className="sm:max-w-xs"
+              />
+              <RoleSelect
+                value={role}
+                onChange={setRole}
+                disabled={isInviting || isFull}
+              />
+              <Button
+                type="submit"
+                disabled={isInviting || isFull || !email.trim()}
+                className="bg-[#00c950] hover:bg-[#00b045] text-white font-medium"
+              >
+                <UserPlus size={18} className="mr-2" />
+                {isInviting ? "Sending..." : "Send invite"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card size="sm" className={cardClassName}>
+        <CardHeader className="border-b border-[#e5e5e5] dark:border-[#1f1f1f] pb-3">
+          <CardTitle className="text-base font-semibold text-black dark:text-white">
+            Members
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pt-4">
+          {team.isLoading && members.length === 0 ? (
+            <p className="text-sm text-[#666666] dark:text-[#999999]">
+              Loading team...
+            </p>
+          ) : (
+            <ul className="divide-y divide-[#e5e5e5] dark:divide-[#1f1f1f]">
+              {members.map((member) => {
+                const memberRole = parseRole(member.role);
+                const isSelf = member.email === user?.email;
+                // The owner and the signed-in user are never edited here
+                const isEditable =
+                  canManage && !isSelf && memberRole !== "owner";
+                const isBusy = busyId === member.id;
+                return (
+                  <li
+                    key={member.id}
+                    className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-3 first:pt-0 last:pb-0"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-medium text-black dark:text-white">
+                        {member.first_name} {member.last_name}
+                        {isSelf && (
+                          <span className="ml-2 text-xs font-normal text-[#666666] dark:text-[#999999]">
+                            (you)
+                          </span>
+                        )}
+                      </p>
+                      <p className="truncate text-xs text-[#666666] dark:text-[#999999]">
+                        {member.email} · Joined {formatDate(member.joined_at)}
+                      </p>
+                    </div>
+                    {isEditable ? (
+                      <div className="flex items-center gap-2">
+                        <RoleSelect
+                          value={memberRole}
+                          onChange={(newRole) =>
+                            runAction(member.id, () =>
+                              updateTeamMemberRoleEndpoint(member.id, newRole)
+                            )
+                          }
+                          disabled={!!busyId}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemove(member.id, member.email)}
+                          disabled={!!busyId}
+                          className="text-[#ef4444] hover:text-[#ef4444] hover:bg-[#ef4444]/10"
+                        >
+                          {isBusy ? "Saving..." : "Remove"}
+                        </Button>
+                      </div>
+                    ) : (
+                      <Badge variant="outline" className="capitalize">
+                        {memberRole}
+                      </Badge>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {invitations.length > 0 && (
+        <Card size="sm" className={cardClassName}>
+          <CardHeader className="border-b border-[#e5e5e5] dark:border-[#1f1f1f] pb-3">
+            <CardTitle className="text-base font-semibold text-black dark:text-white">
+              Pending invitations
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-4">
+            <ul className="divide-y divide-[#e5e5e5] dark:divide-[#1f1f1f]">
+              {invitations.map((invitation) => (
+                <li
+                  key={invitation.id}
+                  className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-3 first:pt-0 last:pb-0"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate text-sm font-medium text-black dark:text-white">
+                        {invitation.email}
+                      </span>
+                      <Badge variant="outline" className="capitalize">
+                        {parseRole(invitation.role)}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-[#666666] dark:text-[#999999]">
+                      Invited {formatDate(invitation.invited_at)} · Expires{" "}
+                      {formatDate(invitation.expires_at)}
+                    </p>
+                  </div>
+                  {canManage && (
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          runAction(
+                            invitation.id,
+                            () => resendInvitationEndpoint(invitation.id),
+                            `Invitation sent again to ${invitation.email}.`
+                          )
+                        }
+                        disabled={!!busyId}
+                        className="border-[#e5e5e5] dark:border-[#1f1f1f] hover:bg-[#f5f5f5] dark:hover:bg-[#1a1a1a] text-black dark:text-white"
+                      >
+                        Resend
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          runAction(invitation.id, () =>
+                            cancelInvitationEndpoint(invitation.id)
+                          )
+                        }
+                        disabled={!!busyId}
+                        className="text-[#ef4444] hover:text-[#ef4444] hover:bg-[#ef4444]/10"
+                      >
+                        {busyId === invitation.id ? "Saving..." : "Cancel"}
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
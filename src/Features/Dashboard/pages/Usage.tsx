@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import {
   Card,
   CardContent,
@@ -17,13 +17,14 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Gallery, TestTube, Calculator, Box, User } from "@solar-icons/react";
+import { type ApiKeyStatsResponseData } from "@/lib/api/endpoints";
 import {
-  getApiKeyStatsEndpoint,
-  listApiKeysEndpoint,
-  type ApiKeyStatsResponseData,
-  type ApiKeyListItem,
-  ApiError,
-} from "@/lib/api/endpoints";
+  describeApiError,
+  type UserFacingError,
+} from "@/lib/api/errorMessages";
+import { apiKeysQuery, apiKeyStatsQuery } from "@/lib/api/queries";
+import { useQuery } from "@/lib/api/useQuery";
+import { useNow } from "@/lib/useNow";
 import {
   LineChart,
   Line,
@@ -36,6 +37,8 @@ import {
   Legend,
   ResponsiveContainer,
 } from "recharts";
+import { formatApiKeyName, isApiKeyExpired } from "../apiKeyFormat";
+import { dateInputToIso } from "../dateRange";
 
 type UsageSubTab =
   | "media"
@@ -50,37 +53,25 @@ interface UsageProps {
 }
 
 export function Usage({ activeSubTab, onSubTabChange }: UsageProps) {
-  const [apiKeys, setApiKeys] = useState<ApiKeyListItem[]>([]);
-  const [selectedKeyId, setSelectedKeyId] = useState<number | null>(null);
-  const [isLoadingKeys, setIsLoadingKeys] = useState(true);
+  const [pickedKeyId, setPickedKeyId] = useState<number | null>(null);
   const [dateFrom, setDateFrom] = useState<string>("");
   const [dateTo, setDateTo] = useState<string>("");
+  const isDateFromInvalid = !!dateFrom && !dateInputToIso(dateFrom);
+  const isDateToInvalid = !!dateTo && !dateInputToIso(dateTo, true);
 
-  // Fetch API keys on mount
-  useEffect(() => {
-    const fetchApiKeys = async () => {
-      setIsLoadingKeys(true);
-      try {
-        const response = await listApiKeysEndpoint();
-        if (
-          response.data &&
-          response.data.keys &&
-          response.data.keys.length > 0
-        ) {
-          setApiKeys(response.data.keys);
-          // Set first key as default selection
-          setSelectedKeyId(response.data.keys[0].id);
-        }
-      } catch (err) {
-        console.error("Error fetching API keys:", err);
-        // Set empty array on error so UI can handle it gracefully
-        setApiKeys([]);
-      } finally {
-        setIsLoadingKeys(false);
-      }
-    };
-    fetchApiKeys();
-  }, []);
+  // API keys come from the shared cache; on error the list is simply empty
+  const { data: keysResponse, isLoading: isLoadingKeys } =
+    useQuery(apiKeysQuery());
+  const now = useNow();
+  // Expired keys can't be used any more, so they are not offered
+  const apiKeys = (keysResponse?.data?.keys ?? []).filter(
+    (key) => !isApiKeyExpired(key, now)
+  );
+  // Default to the first key until the user picks one
+  const selectedKeyId =
+    pickedKeyId !== null && apiKeys.some((key) => key.id === pickedKeyId)
+      ? pickedKeyId
+      : apiKeys[0]?.id ?? null;
 
   return (
     <div className="space-y-6">
@@ -106,6 +97,7 @@ export function Usage({ activeSubTab, onSubTabChange }: UsageProps) {
               type="date"
               value={dateFrom}
               onChange={(e) => setDateFrom(e.target.value)}
+              aria-invalid={isDateFromInvalid}
               className="w-[150px] border-[#e5e5e5] dark:border-[#1f1f1f] bg-white dark:bg-[#0a0a0a] text-black dark:text-white focus:border-[#00c950] focus:ring-[#00c950]/20"
             />
           </div>
@@ -121,6 +113,7 @@ export function Usage({ activeSubTab, onSubTabChange }: UsageProps) {
               type="date"
               value={dateTo}
               onChange={(e) => setDateTo(e.target.value)}
+              aria-invalid={isDateToInvalid}
               className="w-[150px] border-[#e5e5e5] dark:border-[#1f1f1f] bg-white dark:bg-[#0a0a0a] text-black dark:text-white focus:border-[#00c950] focus:ring-[#00c950]/20"
               min={dateFrom || undefined}
             />
@@ -144,8 +137,11 @@ export function Usage({ activeSubTab, onSubTabChange }: UsageProps) {
             </label>
             <Select
               value={selectedKeyId?.toString() || ""}
+              items={Object.fromEntries(
+                apiKeys.map((key) => [key.id, formatApiKeyName(key)])
+              )}
               onValueChange={(value) =>
-                setSelectedKeyId(value ? Number(value) : null)
+                setPickedKeyId(value ? Number(value) : null)
               }
               disabled={isLoadingKeys || apiKeys.length === 0}
             >
@@ -159,7 +155,7 @@ export function Usage({ activeSubTab, onSubTabChange }: UsageProps) {
                     value={key.id.toString()}
                     className="text-black dark:text-white"
                   >
-                    ........{key.masked_suffix}
+                    {formatApiKeyName(key)}
                   </SelectItem>
                 ))}
               </SelectContent>
@@ -167,6 +163,11 @@ export function Usage({ activeSubTab, onSubTabChange }: UsageProps) {
           </div>
         </div>
       </div>
+      {(isDateFromInvalid || isDateToInvalid) && (
+        <div className="animate-fade-in-up rounded-lg bg-[#ef4444]/10 dark:bg-[#ef4444]/20 border border-[#ef4444]/20 p-4 text-sm text-[#ef4444] font-medium">
+          Enter a valid date to filter the stats.
+        </div>
+      )}
       <div className="animate-fade-in-up animate-delay-200 border-b border-[#e5e5e5] dark:border-[#1f1f1f]">
         <nav className="flex gap-1 overflow-x-auto">
           <button
@@ -287,7 +288,21 @@ export function Usage({ activeSubTab, onSubTabChange }: UsageProps) {
   );
 }
 
+// Default stats range: the last 30 days, whole days so the cache key is stable
+const getDefaultDateRange = () => {
+  const dateToObj = new Date();
+  dateToObj.setHours(23, 59, 59, 0);
+  const dateFromObj = new Date();
+  dateFromObj.setHours(0, 0, 0, 0);
+  dateFromObj.setDate(dateFromObj.getDate() - 30);
+  return {
+    dateFromIso: dateFromObj.toISOString(),
+    dateToIso: dateToObj.toISOString(),
+  };
+};
+
 // Helper hook to fetch stats for a specific consumed_by type
+// Results are cached per request, so switching sub-tabs is instant
 function useUsageStats(
   consumedBy:
     | "media_simulation"
@@ -298,80 +313,77 @@ function useUsageStats(
   dateFrom: string,
   dateTo: string
 ) {
-  const [statsData, setStatsData] = useState<ApiKeyStatsResponseData | null>(
-    null
-  );
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchStats = async () => {
-      if (keyId === null) {
-        setIsLoading(false);
-        setError(null);
-        setStatsData(null);
-        return;
-      }
-
-      setIsLoading(true);
-      setError(null);
-      try {
-        // Use provided dates or default to last 30 days
-        let dateFromObj: Date;
-        let dateToObj: Date;
-
-        if (dateFrom && dateTo) {
-          dateFromObj = new Date(dateFrom);
-          dateToObj = new Date(dateTo + "T23:59:59");
-        } else {
-          // Default to last 30 days
-          dateToObj = new Date();
-          dateFromObj = new Date();
-          dateFromObj.setDate(dateFromObj.getDate() - 30);
+  // Use provided dates or default to last 30 days
+  const { dateFromIso, dateToIso } =
+    dateFrom && dateTo
+      ? {
+          dateFromIso: dateInputToIso(dateFrom),
+          dateToIso: dateInputToIso(dateTo, true),
         }
+      : getDefaultDateRange();
+  const hasValidDates = !!dateFromIso && !!dateToIso;
 
-        const response = await getApiKeyStatsEndpoint({
-          key_id: keyId,
-          date_from: dateFromObj.toISOString(),
-          date_to: dateToObj.toISOString(),
-          consumed_by: consumedBy,
-          granularity: "daily",
-          include_chart_data: true,
-          charts_only: false,
-        });
+  const { data, isLoading, error, refetch } = useQuery(
+    apiKeyStatsQuery({
+      key_id: keyId,
+      date_from: dateFromIso,
+      date_to: dateToIso,
+      consumed_by: consumedBy,
+      granularity: "daily",
+      include_chart_data: true,
+      charts_only: false,
+    }),
+    { enabled: keyId !== null && hasValidDates }
+  );
 
-        if (response.data) {
-          setStatsData(response.data as ApiKeyStatsResponseData);
-        }
-      } catch (err) {
-        let errorMessage = "Failed to fetch stats";
-        if (err instanceof ApiError) {
-          errorMessage = err.message;
-          // Handle specific error cases
-          if (err.status === 401) {
-            errorMessage = "Session expired. Please refresh the page.";
-          } else if (err.status === 0) {
-            errorMessage =
-              "Network error: Unable to connect to the server. Please check your internet connection.";
-          } else if (err.status === 404) {
-            errorMessage = "Stats not found. Please check your filters.";
-          } else if (err.status && err.status >= 500) {
-            errorMessage = "Server error. Please try again later.";
-          }
-        } else if (err instanceof Error) {
-          errorMessage = err.message;
-        }
-        setError(errorMessage);
-        console.error("Error fetching stats:", err);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  // Errors are surfaced through `error`, so the rejection is dropped here
+  const retry = () => {
+    refetch().catch(() => undefined);
+  };
 
-    fetchStats();
-  }, [keyId, consumedBy, dateFrom, dateTo]);
+  // The page header already flags an invalid date
+  if (keyId === null || !hasValidDates) {
+    return { statsData: null, isLoading: false, error: null, retry };
+  }
 
-  return { statsData, isLoading, error };
+  return {
+    statsData: (data?.data as ApiKeyStatsResponseData | undefined) ?? null,
+    isLoading,
+    error: error ? describeApiError(error, "stats") : null,
+    retry,
+  };
+}
+
+// Error card shown by the usage sub-tabs, with a retry action when it helps
+function StatsErrorCard({
+  error,
+  onRetry,
+}: {
+  error: UserFacingError;
+  onRetry: () => void;
+}) {
+  return (
+    <Card
+      size="sm"
+      className="animate-fade-in-up border-[#ef4444] bg-[#ef4444]/5 dark:bg-[#ef4444]/10"
+    >
+      <CardContent className="pt-4 flex items-center justify-between gap-4">
+        <div className="text-[#ef4444] text-xs font-medium">
+          {error.message}
+        </div>
+        {error.action === "retry" && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onRetry}
+            className="border-[#ef4444]/40 text-[#ef4444] hover:bg-[#ef4444]/10"
+          >
+            {error.actionLabel}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
 }
 
 function MediaUsage({
@@ -383,7 +395,7 @@ function MediaUsage({
   dateFrom: string;
   dateTo: string;
 }) {
-  const { statsData, isLoading, error } = useUsageStats(
+  const { statsData, isLoading, error, retry } = useUsageStats(
     "media_simulation",
     keyId,
     dateFrom,
@@ -418,16 +430,7 @@ function MediaUsage({
   }
 
   if (error) {
-    return (
-      <Card
-        size="sm"
-        className="animate-fade-in-up border-[#ef4444] bg-[#ef4444]/5 dark:bg-[#ef4444]/10"
-      >
-        <CardContent className="pt-4">
-          <div className="text-[#ef4444] text-xs font-medium">{error}</div>
-        </CardContent>
-      </Card>
-    );
+    return <StatsErrorCard error={error} onRetry={retry} />;
   }
 
   return (
@@ -618,7 +621,7 @@ function ConceptTestUsage({
   dateFrom: string;
   dateTo: string;
 }) {
-  const { statsData, isLoading, error } = useUsageStats(
+  const { statsData, isLoading, error, retry } = useUsageStats(
     "concept_simulation",
     keyId,
     dateFrom,
@@ -652,16 +655,7 @@ function ConceptTestUsage({
   }
 
   if (error) {
-    return (
-      <Card
-        size="sm"
-        className="animate-fade-in-up border-[#ef4444] bg-[#ef4444]/5 dark:bg-[#ef4444]/10"
-      >
-        <CardContent className="pt-4">
-          <div className="text-[#ef4444] text-xs font-medium">{error}</div>
-        </CardContent>
-      </Card>
-    );
+    return <StatsErrorCard error={error} onRetry={retry} />;
   }
 
   return (
@@ -850,7 +844,7 @@ function PriceSimulatorUsage({
   dateFrom: string;
   dateTo: string;
 }) {
-  const { statsData, isLoading, error } = useUsageStats(
+  const { statsData, isLoading, error, retry } = useUsageStats(
     "persona_generation_clustering",
     keyId,
     dateFrom,
@@ -884,16 +878,7 @@ function PriceSimulatorUsage({
   }
 
   if (error) {
-    return (
-      <Card
-        size="sm"
-        className="animate-fade-in-up border-[#ef4444] bg-[#ef4444]/5 dark:bg-[#ef4444]/10"
-      >
-        <CardContent className="pt-4">
-          <div className="text-[#ef4444] text-xs font-medium">{error}</div>
-        </CardContent>
-      </Card>
-    );
+    return <StatsErrorCard error={error} onRetry={retry} />;
   }
 
   return (
@@ -1082,7 +1067,7 @@ function ProductUsage({
   dateFrom: string;
   dateTo: string;
 }) {
-  const { statsData, isLoading, error } = useUsageStats(
+  const { statsData, isLoading, error, retry } = useUsageStats(
     "product_ocr",
     keyId,
     dateFrom,
@@ -1116,16 +1101,7 @@ function ProductUsage({
   }
 
   if (error) {
-    return (
-      <Card
-        size="sm"
-        className="animate-fade-in-up border-[#ef4444] bg-[#ef4444]/5 dark:bg-[#ef4444]/10"
-      >
-        <CardContent className="pt-4">
-          <div className="text-[#ef4444] text-xs font-medium">{error}</div>
-        </CardContent>
-      </Card>
-    );
+    return <StatsErrorCard error={error} onRetry={retry} />;
   }
 
   return (
@@ -1314,7 +1290,7 @@ function PersonaUsage({
   dateFrom: string;
   dateTo: string;
 }) {
-  const { statsData, isLoading, error } = useUsageStats(
+  const { statsData, isLoading, error, retry } = useUsageStats(
     "persona_generation_clustering",
     keyId,
     dateFrom,
@@ -1348,16 +1324,7 @@ function PersonaUsage({
   }
 
   if (error) {
-    return (
-      <Card
-        size="sm"
-        className="animate-fade-in-up border-[#ef4444] bg-[#ef4444]/5 dark:bg-[#ef4444]/10"
-      >
-        <CardContent className="pt-4">
-          <div className="text-[#ef4444] text-xs font-medium">{error}</div>
-        </CardContent>
-      </Card>
-    );
+    return <StatsErrorCard error={error} onRetry={retry} />;
   }
 
   return (
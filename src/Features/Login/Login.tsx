@@ -1,19 +1,34 @@
 import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, Navigate, useNavigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
-import { Login as LoginIcon } from "@solar-icons/react";
-import { loginEndpoint } from "@/lib/api/endpoints";
+import { Login as LoginIcon, ShieldKeyhole } from "@solar-icons/react";
+import {
+  isTwoFactorChallenge,
+  loginEndpoint,
+  verifyTwoFactorLoginEndpoint,
+} from "@/lib/api/endpoints";
+import { describeApiError } from "@/lib/api/errorMessages";
+import { getSessionEndReason } from "@/lib/session/session";
+import { useSession } from "@/lib/session/useSession";
 
 export function Login() {
   const navigate = useNavigate();
+  const { isAuthenticated } = useSession();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  // Set when the account requires a second factor
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  // Sent here because the session could not be renewed
+  const [isSessionExpired] = useState(
+    () => getSessionEndReason() === "expired"
+  );
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -25,20 +40,14 @@ export function Login() {
       // Call the login API endpoint
       const response = await loginEndpoint(email, password);
 
-      if (response.success && response.data) {
+      if (response.success && isTwoFactorChallenge(response.data)) {
+        // Ask for the second factor; the password is no longer needed
+        setChallengeToken(response.data.challenge_token);
+        setPassword("");
+      } else if (response.success && response.data) {
+        // loginEndpoint has already started the session
         setSuccess(true);
 
-        // Tokens are already stored by loginEndpoint, just store user data
-        const { user } = response.data;
-
-        localStorage.setItem("userEmail", user.email);
-        localStorage.setItem("userId", user.id);
-        localStorage.setItem("userData", JSON.stringify(user));
-
-        // Store password temporarily in sessionStorage for refreshing user data
-        // This will be cleared when user logs out or closes the browser
-        sessionStorage.setItem("userPassword", password);
-
         // Redirect to dashboard
         navigate("/dashboard", { replace: true });
       } else {
@@ -48,16 +57,95 @@ export function Login() {
       }
     } catch (err) {
       // Handle API errors
-      const errorMessage =
-        err instanceof Error
-          ? err.message
-          : "An unexpected error occurred. Please try again.";
-      setError(errorMessage);
+      setError(describeApiError(err, "login").message);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleVerify = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!challengeToken) return;
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      // Starts the session, which redirects to the dashboard
+      await verifyTwoFactorLoginEndpoint(challengeToken, code.trim());
+      setSuccess(true);
+      navigate("/dashboard", { replace: true });
+    } catch (err) {
+      setError(describeApiError(err, "two_factor").message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancelChallenge = () => {
+    setChallengeToken(null);
+    setCode("");
+    setError(null);
+  };
+
+  // Signed in here or in another tab
+  if (isAuthenticated) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  if (challengeToken) {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="text-center">
+              Two-factor verification
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleVerify} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="code">Authentication code</Label>
+                <Input
+                  id="code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  required
+                  autoFocus
+                  disabled={isLoading}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Enter the 6-digit code from your authenticator app, or one of
+                  your recovery codes.
+                </p>
+              </div>
+              {error && (
+                <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                  {error}
+                </div>
+              )}
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                <ShieldKeyhole size={18} className="mr-2" />
+                {isLoading ? "Verifying..." : "Verify"}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={handleCancelChallenge}
+                disabled={isLoading}
+              >
+                Back to login
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="flex min-h-screen items-center justify-center p-4">
       <Card className="w-full max-w-md">
@@ -82,7 +170,15 @@ export function Login() {
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password">Password</Label>
+                <Link
+                  to="/forgot-password"
+                  className="text-sm text-muted-foreground underline-offset-4 hover:underline"
+                >
+                  Forgot password?
+                </Link>
+              </div>
               <Input
                 id="password"
                 type="password"
@@ -93,6 +189,11 @@ export function Login() {
                 disabled={isLoading}
               />
             </div>
+            {isSessionExpired && !error && !success && (
+              <div className="rounded-md bg-muted p-3 text-sm text-muted-foreground">
+                Your session has expired. Please log in again.
+              </div>
+            )}
             {error && (
               <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
                 {error}
@@ -107,6 +208,15 @@ export function Login() {
               <LoginIcon size={18} className="mr-2" />
               {isLoading ? "Logging in..." : "Login"}
             </Button>
+            <p className="text-center text-sm text-muted-foreground">
+              Don't have an account?{" "}
+              <Link
+                to="/register"
+                className="font-medium text-foreground underline underline-offset-4"
+              >
+                Sign up
+              </Link>
+            </p>
           </form>
         </CardContent>
       </Card>
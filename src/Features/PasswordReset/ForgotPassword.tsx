@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Field, FieldError, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Letter } from "@solar-icons/react";
+import { requestPasswordResetEndpoint } from "@/lib/api/endpoints";
+import { describeApiError } from "@/lib/api/errorMessages";
+import { isValidEmail } from "@/lib/validation";
+
+export function ForgotPassword() {
+  const [email, setEmail] = useState("");
+  const [emailError, setEmailError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSent, setIsSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+    if (!isValidEmail(email)) {
+      setEmailError("Enter a valid email address");
+      return;
+    }
+    setEmailError(null);
+
+    setIsLoading(true);
+    try {
+      await requestPasswordResetEndpoint(email.trim());
+      setIsSent(true);
+    } catch (err) {
+      setError(describeApiError(err, "forgot_password").message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-center">Reset your password</CardTitle>
+          <CardDescription className="text-center">
+            {isSent
+              ? `If an account exists for ${email.trim()}, we've sent a link to reset its password.`
+              : "Enter your account's email and we'll send you a link to reset your password."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isSent ? (
+            <div className="flex justify-center">
+              <div className="bg-[#00c950]/10 dark:bg-[#00c950]/20 rounded-full p-4">
+                <Letter size={32} className="text-[#00c950]" />
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+              <Field data-invalid={!!emailError}>
+                <FieldLabel htmlFor="email">Email</FieldLabel>
+                <Input
+                  id="email"
+                  type="email"
+                  autoComplete="email"
+                  placeholder="Enter your email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  aria-invalid={!!emailError}
+                  disabled={isLoading}
+                />
+                <FieldError>{emailError}</FieldError>
+              </Field>
+              {error && (
+                <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                  {error}
+                </div>
+              )}
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? "Sending..." : "Send reset link"}
+              </Button>
+            </form>
+          )}
+          <p className="mt-4 text-center text-sm text-muted-foreground">
+            <Link
+              to="/login"
+              className="font-medium text-foreground underline underline-offset-4"
+            >
+              Back to login
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
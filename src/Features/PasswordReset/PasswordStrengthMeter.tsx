@@ -0,0 +1,34 @@
+import { getPasswordStrength, type PasswordStrength } from "@/lib/validation";
+
+// Filled segments and color of the strength meter
+const STRENGTH_METER: Record<
+  PasswordStrength,
+  { segments: number; color: string; label: string }
+> = {
+  weak: { segments: 1, color: "bg-[#ef4444]", label: "Weak" },
+  fair: { segments: 2, color: "bg-[#f59e0b]", label: "Fair" },
+  good: { segments: 3, color: "bg-[#84cc16]", label: "Good" },
+  strong: { segments: 4, color: "bg-[#00c950]", label: "Strong" },
+};
+
+/**
+ * Four-segment bar showing how strong a password is
+ */
+export function PasswordStrengthMeter({ password }: { password: string }) {
+  const meter = STRENGTH_METER[getPasswordStrength(password)];
+  return (
+    <div className="space-y-1">
+      <div className="grid grid-cols-4 gap-1">
+        {[1, 2, 3, 4].map((segment) => (
+          <div
+            key={segment}
+            className={`h-1 rounded-full ${
+              segment <= meter.segments ? meter.color : "bg-muted"
+            }`}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">{meter.label}</p>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Field,
+  FieldDescription,
+  FieldError,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { resetPasswordEndpoint } from "@/lib/api/endpoints";
+import { describeApiError } from "@/lib/api/errorMessages";
+import { resetTokenQuery } from "@/lib/api/queries";
+import { useQuery } from "@/lib/api/useQuery";
+import { getPasswordIssues } from "@/lib/validation";
+import { PasswordStrengthMeter } from "./PasswordStrengthMeter";
+
+export function ResetPassword() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const tokenQuery = useQuery(resetTokenQuery(token), { enabled: !!token });
+
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  // Field errors are shown after the first submit attempt
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isDone, setIsDone] = useState(false);
+
+  const passwordIssues = getPasswordIssues(password);
+  const passwordError =
+    isSubmitted && passwordIssues.length > 0
+      ? `Password needs: ${passwordIssues.join(", ")}`
+      : null;
+  const confirmError =
+    isSubmitted && confirmPassword !== password
+      ? "Passwords do not match"
+      : null;
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSubmitted(true);
+    setError(null);
+    if (passwordIssues.length > 0 || confirmPassword !== password) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await resetPasswordEndpoint(token, password);
+      setIsDone(true);
+    } catch (err) {
+      setError(describeApiError(err, "reset_password").message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (!token || tokenQuery.error) {
+      return (
+        <div className="space-y-4">
+          <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+            {token
+              ? describeApiError(tokenQuery.error, "reset_password").message
+              : "This reset link is invalid or has expired."}
+          </div>
+          <Button
+            className="w-full"
+            onClick={() => navigate("/forgot-password")}
+          >
+            Request a new link
+          </Button>
+        </div>
+      );
+    }
+
+    if (tokenQuery.isLoading) {
+      return (
+        <p className="text-center text-sm text-muted-foreground">
+          Checking your reset link...
+        </p>
+      );
+    }
+
+    if (isDone) {
+      return (
+        <div className="space-y-4">
+          <div className="rounded-md bg-green-500/10 p-3 text-sm text-green-600 dark:text-green-400">
+            Your password has been updated. You can now log in with it.
+          </div>
+          <Button className="w-full" onClick={() => navigate("/login")}>
+            Go to login
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit} noValidate>
+        <FieldGroup className="gap-4">
+          <Field data-invalid={!!passwordError}>
+            <FieldLabel htmlFor="password">New password</FieldLabel>
+            <Input
+              id="password"
+              type="password"
+              autoComplete="new-password"
+              placeholder="Create a new password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              aria-invalid={!!passwordError}
+              disabled={isLoading}
+            />
+            {password && <PasswordStrengthMeter password={password} />}
+            {passwordError ? (
+              <FieldError>{passwordError}</FieldError>
+            ) : (
+              <FieldDescription>
+                Use 12+ characters and a symbol for a strong password.
+              </FieldDescription>
+            )}
+          </Field>
+          <Field data-invalid={!!confirmError}>
+            <FieldLabel htmlFor="confirmPassword">Confirm password</FieldLabel>
+            <Input
+              id="confirmPassword"
+              type="password"
+              autoComplete="new-password"
+              placeholder="Repeat the new password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              aria-invalid={!!confirmError}
+              disabled={isLoading}
+            />
+            <FieldError>{confirmError}</FieldError>
+          </Field>
+          {error && (
+            <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+          <Button type="submit" className="w-full" disabled={isLoading}>
+            {isLoading ? "Updating..." : "Set new password"}
+          </Button>
+        </FieldGroup>
+      </form>
+    );
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-center">Choose a new password</CardTitle>
+          {tokenQuery.data && !isDone && (
+            <CardDescription className="text-center">
+              For {tokenQuery.data.data.email}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          {renderContent()}
+          <p className="mt-4 text-center text-sm text-muted-foreground">
+            <Link
+              to="/login"
+              className="font-medium text-foreground underline underline-offset-4"
+            >
+              Back to login
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+import { useState } from "react";
+import { Link, Navigate, useNavigate } from "react-router-dom";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Field,
+  FieldDescription,
+  FieldError,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { UserPlus, Letter } from "@solar-icons/react";
+import {
+  registerEndpoint,
+  resendVerificationEmailEndpoint,
+} from "@/lib/api/endpoints";
+import { describeApiError } from "@/lib/api/errorMessages";
+import { useSession } from "@/lib/session/useSession";
+import {
+  getPasswordIssues,
+  isValidEmail,
+  MIN_PASSWORD_LENGTH,
+} from "@/lib/validation";
+
+interface RegisterForm {
+  firstName: string;
+  lastName: string;
+  email: string;
+  password: string;
+  confirmPassword: string;
+}
+
+type RegisterErrors = Partial<Record<keyof RegisterForm, string>>;
+
+const validate = (form: RegisterForm): RegisterErrors => {
+  const errors: RegisterErrors = {};
+  if (!form.firstName.trim()) {
+    errors.firstName = "First name is required";
+  }
+  if (!form.lastName.trim()) {
+    errors.lastName = "Last name is required";
+  }
+  if (!isValidEmail(form.email)) {
+    errors.email = "Enter a valid email address";
+  }
+  const passwordIssues = getPasswordIssues(form.password);
+  if (passwordIssues.length > 0) {
+    errors.password = `Password needs: ${passwordIssues.join(", ")}`;
+  }
+  if (form.confirmPassword !== form.password) {
+    errors.confirmPassword = "Passwords do not match";
+  }
+  return errors;
+};
+
+export function Register() {
+  const navigate = useNavigate();
+  const { isAuthenticated } = useSession();
+  const [form, setForm] = useState<RegisterForm>({
+    firstName: "",
+    lastName: "",
+    email: "",
+    password: "",
+    confirmPassword: "",
+  });
+  // Field errors are shown after the first submit attempt
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Email awaiting verification once the account was created
+  const [pendingEmail, setPendingEmail] = useState<string | null>(null);
+  const [isResending, setIsResending] = useState(false);
+  const [resendMessage, setResendMessage] = useState<string | null>(null);
+  // Account created and usable right away (no verification needed)
+  const [isAccountReady, setIsAccountReady] = useState(false);
+
+  const errors = isSubmitted ? validate(form) : {};
+
+  const updateField =
+    (field: keyof RegisterForm) => (e: React.ChangeEvent<HTMLInputElement>) =>
+      setForm((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSubmitted(true);
+    setError(null);
+    if (Object.keys(validate(form)).length > 0) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await registerEndpoint({
+        email: form.email.trim(),
+        password: form.password,
+        first_name: form.firstName.trim(),
+        last_name: form.lastName.trim(),
+      });
+      if (response.data.verification_required) {
+        setPendingEmail(response.data.email);
+      } else {
+        setIsAccountReady(true);
+      }
+    } catch (err) {
+      setError(describeApiError(err, "register").message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResend = async () => {
+    if (!pendingEmail) return;
+    setIsResending(true);
+    setResendMessage(null);
+    try {
+      await resendVerificationEmailEndpoint(pendingEmail);
+      setResendMessage("Verification email sent again.");
+    } catch (err) {
+      setResendMessage(describeApiError(err, "resend_verification").message);
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  if (isAuthenticated) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  if (isAccountReady) {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="text-center">Account created</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="rounded-md bg-green-500/10 p-3 text-sm text-green-600 dark:text-green-400">
+              Your account is ready. You can now log in with it.
+            </div>
+            <Button className="w-full" onClick={() => navigate("/login")}>
+              Go to login
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (pendingEmail) {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <div className="flex justify-center mb-2">
+              <div className="bg-[#00c950]/10 dark:bg-[#00c950]/20 rounded-full p-4">
+                <Letter size={32} className="text-[#00c950]" />
+              </div>
+            </div>
+            <CardTitle className="text-center">Verify your email</CardTitle>
+            <CardDescription className="text-center">
+              We sent a verification link to{" "}
+              <span className="font-medium text-foreground">
+                {pendingEmail}
+              </span>
+              . Open it to activate your account, then log in.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {resendMessage && (
+              <div className="rounded-md bg-muted p-3 text-sm text-muted-foreground">
+                {resendMessage}
+              </div>
+            )}
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={handleResend}
+              disabled={isResending}
+            >
+              {isResending ? "Sending..." : "Resend email"}
+            </Button>
+            <Button className="w-full" onClick={() => navigate("/login")}>
+              Back to login
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-center">Create an account</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} noValidate>
+            <FieldGroup className="gap-4">
+              <div className="grid grid-cols-2 gap-4">
+                <Field data-invalid={!!errors.firstName}>
+                  <FieldLabel htmlFor="firstName">First name</FieldLabel>
+                  <Input
+                    id="firstName"
+                    autoComplete="given-name"
+                    value={form.firstName}
+                    onChange={updateField("firstName")}
+                    aria-invalid={!!errors.firstName}
+                    disabled={isLoading}
+                  />
+                  <FieldError>{errors.firstName}</FieldError>
+                </Field>
+                <Field data-invalid={!!errors.lastName}>
+                  <FieldLabel htmlFor="lastName">Last name</FieldLabel>
+                  <Input
+                    id="lastName"
+                    autoComplete="family-name"
+                    value={form.lastName}
+                    onChange={updateField("lastName")}
+                    aria-invalid={!!errors.lastName}
+                    disabled={isLoading}
+                  />
+                  <FieldError>{errors.lastName}</FieldError>
+                </Field>
+              </div>
+              <Field data-invalid={!!errors.email}>
+                <FieldLabel htmlFor="email">Email</FieldLabel>
+                <Input
+                  id="email"
+                  type="email"
+                  autoComplete="email"
+                  placeholder="Enter your email"
+                  value={form.email}
+                  onChange={updateField("email")}
+                  aria-invalid={!!errors.email}
+                  disabled={isLoading}
+                />
+                <FieldError>{errors.email}</FieldError>
+              </Field>
+              <Field data-invalid={!!errors.password}>
+                <FieldLabel htmlFor="password">Password</FieldLabel>
+                <Input
+                  id="password"
+                  type="password"
+                  autoComplete="new-password"
+                  placeholder="Create a password"
+                  value={form.password}
+                  onChange={updateField("password")}
+                  aria-invalid={!!errors.password}
+                  disabled={isLoading}
+                />
+                {errors.password ? (
+                  <FieldError>{errors.password}</FieldError>
+                ) : (
+                  <FieldDescription>
+                    At least {MIN_PASSWORD_LENGTH} characters with upper- and
+                    lowercase letters and a number.
+                  </FieldDescription>
+                )}
+              </Field>
+              <Field data-invalid={!!errors.confirmPassword}>
+                <FieldLabel htmlFor="confirmPassword">
+                  Confirm password
+                </FieldLabel>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  autoComplete="new-password"
+                  placeholder="Repeat your password"
+                  value={form.confirmPassword}
+                  onChange={updateField("confirmPassword")}
+                  aria-invalid={!!errors.confirmPassword}
+                  disabled={isLoading}
+                />
+                <FieldError>{errors.confirmPassword}</FieldError>
+              </Field>
+              {error && (
+                <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                  {error}
+                </div>
+              )}
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                <UserPlus size={18} className="mr-2" />
+                {isLoading ? "Creating account..." : "Create account"}
+              </Button>
+              <p className="text-center text-sm text-muted-foreground">
+                Already have an account?{" "}
+                <Link
+                  to="/login"
+                  className="font-medium text-foreground underline underline-offset-4"
+                >
+                  Log in
+                </Link>
+              </p>
+            </FieldGroup>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
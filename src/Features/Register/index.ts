@@ -0,0 +1 @@
+export { Register } from "./Register";
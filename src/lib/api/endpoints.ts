@@ -3,11 +3,34 @@
  * This file contains all API endpoint definitions for the application
  */
 
+import * as s from "./schema";
+import { SchemaError, type Schema } from "./schema";
+import {
+  parseRateLimit,
+  recordRateLimit,
+  type RateLimitInfo,
+} from "./rateLimit";
+import {
+  clearSession,
+  getAccessToken,
+  getRefreshToken,
+  isAccessTokenExpired,
+  reloadSession,
+  saveTokens,
+  withRefreshLock,
+} from "@/lib/session/session";
+
 // API base URL from environment variables
 const API_BASE_URL =
   import.meta.env.VITE_API_BASE_URL ||
   "https://api.zcoded.acutusai.com/api/v1/api-users";
 
+// API root URL (without '/api-users') for services outside the api-users scope
+// e.g. 'https://api.zcoded.acutusai.com/api/v1/api-users' -> 'https://api.zcoded.acutusai.com/api/v1'
+const API_ROOT_URL =
+  API_BASE_URL.replace(/\/api-users\/?$/, "") ||
+  "https://api.zcoded.acutusai.com/api/v1";
+
 /**
  * Type definitions for API requests and responses
  */
@@ -18,6 +41,20 @@ export interface LoginRequest {
   password: string;
 }
 
+// Register Request
+export interface RegisterRequest {
+  email: string;
+  password: string;
+  first_name: string;
+  last_name: string;
+}
+
+// Register Response Data - the account stays inactive until the email is verified
+export interface RegisterResponseData {
+  email: string;
+  verification_required: boolean;
+}
+
 // User data structure
 export interface User {
   created_at: string;
@@ -30,6 +67,8 @@ export interface User {
   total_credits: number;
   credits_consumed: number;
   id: string;
+  // Whether TOTP two-factor authentication is enabled
+  two_factor_enabled?: boolean;
 }
 
 // Login Response Data
@@ -42,6 +81,14 @@ export interface LoginResponseData {
   user: User;
 }
 
+// Login Response Data when the account has 2FA enabled - no tokens are issued
+// until the challenge is answered via verifyTwoFactorLoginEndpoint
+export interface TwoFactorChallengeData {
+  two_factor_required: true;
+  // Short-lived token identifying this login attempt
+  challenge_token: string;
+}
+
 // Refresh Token Response Data
 export interface RefreshTokenResponseData {
   access_token: string;
@@ -59,141 +106,247 @@ export interface ApiResponse<T> {
   data: T;
 }
 
+const userSchema = s.object<User>({
+  id: s.string,
+  email: s.string,
+  first_name: s.string,
+  last_name: s.string,
+  role: s.string,
+  is_active: s.boolean,
+  total_credits: s.number,
+  credits_consumed: s.number,
+  two_factor_enabled: s.optional(s.boolean),
+});
+
+const refreshTokenSchema = s.object<RefreshTokenResponseData>({
+  access_token: s.string,
+  refresh_token: s.string,
+  token_type: s.string,
+  expires_in: s.number,
+  refresh_expires_in: s.number,
+});
+
+const loginSchema = s.object<LoginResponseData>({
+  access_token: s.string,
+  refresh_token: s.string,
+  token_type: s.string,
+  expires_in: s.number,
+  refresh_expires_in: s.number,
+  user: userSchema,
+});
+
+const twoFactorChallengeSchema = s.object<TwoFactorChallengeData>({
+  two_factor_required: s.literal(true),
+  challenge_token: s.string,
+});
+
+/**
+ * Whether a login response asks for a second factor instead of issuing tokens
+ */
+export const isTwoFactorChallenge = (
+  data: LoginResponseData | TwoFactorChallengeData
+): data is TwoFactorChallengeData => "two_factor_required" in data;
+
 /**
  * Login endpoint - Authenticates user with email and password
  * POST /api/v1/api-users/auth/login
+ * Accounts with 2FA get a challenge instead of tokens; answer it with
+ * verifyTwoFactorLoginEndpoint.
  * @param email - User email address
  * @param password - User password
- * @returns Promise with API response containing user data and tokens
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response containing user data and tokens, or a
+ * two-factor challenge
  */
 export const loginEndpoint = async (
   email: string,
-  password: string
-): Promise<ApiResponse<LoginResponseData>> => {
-  const url = `${API_BASE_URL}/auth/login`;
-
-  try {
-    let response: Response;
-    try {
-      response = await fetch(url, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          email,
-          password,
-        } as LoginRequest),
-      });
-    } catch (fetchError) {
-      if (
-        fetchError instanceof TypeError &&
-        fetchError.message.includes("fetch")
-      ) {
-        throw new ApiError(
-          "Network error: Unable to connect to the server. Please check your internet connection and try again.",
-          0,
-          fetchError
-        );
-      }
-      throw fetchError;
-    }
-
-    let data: ApiResponse<LoginResponseData>;
-    try {
-      const responseText = await response.text();
-      if (!responseText) {
-        throw new ApiError("Empty response from server", response.status);
-      }
-      data = JSON.parse(responseText);
-    } catch (parseError) {
-      if (parseError instanceof SyntaxError) {
-        throw new ApiError(
-          "Invalid response from server. Please try again later.",
-          response.status,
-          parseError
-        );
-      }
-      throw parseError;
-    }
+  password: string,
+  signal?: AbortSignal
+): Promise<ApiResponse<LoginResponseData | TwoFactorChallengeData>> => {
+  const data = await request({
+    url: `${API_BASE_URL}/auth/login`,
+    method: "POST",
+    body: { email, password } as LoginRequest,
+    schema: s.union(twoFactorChallengeSchema, loginSchema),
+    errorMessage: "Login failed",
+    authenticated: false,
+    signal,
+  });
+
+  // Start the session (tokens and user) unless a second factor is required
+  if (!isTwoFactorChallenge(data.data)) {
+    saveTokens(data.data);
+  }
 
-    if (!response.ok) {
-      const errorMessage =
-        data?.message || `Login failed with status ${response.status}`;
-      throw new ApiError(errorMessage, response.status, data);
-    }
+  return data;
+};
 
-    if (!data.success) {
-      throw new ApiError(data.message || "Login failed", response.status, data);
-    }
+/**
+ * Verify Two-Factor Login endpoint - Completes a login that requires 2FA
+ * POST /api/v1/api-users/auth/2fa/verify
+ * @param challengeToken - challenge_token from the login response
+ * @param code - 6-digit code from the authenticator app, or a recovery code
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response containing user data and tokens
+ */
+export const verifyTwoFactorLoginEndpoint = async (
+  challengeToken: string,
+  code: string,
+  signal?: AbortSignal
+): Promise<ApiResponse<LoginResponseData>> => {
+  const data = await request({
+    url: `${API_BASE_URL}/auth/2fa/verify`,
+    method: "POST",
+    body: { challenge_token: challengeToken, code },
+    schema: loginSchema,
+    errorMessage: "Verification failed",
+    authenticated: false,
+    signal,
+  });
+
+  saveTokens(data.data);
+
+  return data;
+};
 
-    // Save tokens with timestamp
-    if (data.data) {
-      saveTokens(data.data);
-    }
+const registerSchema = s.object<RegisterResponseData>({
+  email: s.string,
+  verification_required: s.boolean,
+});
 
-    return data;
-  } catch (error) {
-    if (error instanceof ApiError) {
-      throw error;
-    }
-    if (error instanceof Error) {
-      throw new ApiError(error.message, undefined, error);
-    }
-    throw new ApiError(
-      "An unexpected error occurred during login",
-      undefined,
-      error
-    );
-  }
+/**
+ * Register endpoint - Creates a new account
+ * POST /api/v1/api-users/auth/register
+ * Does not sign the user in; they log in after verifying their email.
+ * @param data - Name, email and password of the new user
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response containing the email verification state
+ */
+export const registerEndpoint = async (
+  data: RegisterRequest,
+  signal?: AbortSignal
+): Promise<ApiResponse<RegisterResponseData>> => {
+  return request({
+    url: `${API_BASE_URL}/auth/register`,
+    method: "POST",
+    body: data,
+    schema: registerSchema,
+    errorMessage: "Registration failed",
+    authenticated: false,
+    signal,
+  });
 };
 
 /**
- * Helper function to get access token from localStorage
+ * Resend Verification Email endpoint - Sends a new email verification link
+ * POST /api/v1/api-users/auth/verify-email/resend
+ * @param email - Email address the account was registered with
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response
  */
-const getAccessToken = (): string | null => {
-  return localStorage.getItem("access_token");
+export const resendVerificationEmailEndpoint = async (
+  email: string,
+  signal?: AbortSignal
+): Promise<ApiResponse<null>> => {
+  return request({
+    url: `${API_BASE_URL}/auth/verify-email/resend`,
+    method: "POST",
+    body: { email },
+    schema: s.unchecked<null>(),
+    errorMessage: "Failed to resend verification email",
+    authenticated: false,
+    signal,
+  });
 };
 
+// Reset Token Validation Data
+export interface ResetTokenValidationData {
+  // Account the reset link was sent to, for display
+  email: string;
+  expires_at: string;
+}
+
+const resetTokenValidationSchema = s.object<ResetTokenValidationData>({
+  email: s.string,
+  expires_at: s.string,
+});
+
 /**
- * Helper function to get refresh token from localStorage
+ * Request Password Reset endpoint - Emails a password reset link
+ * POST /api/v1/api-users/auth/password/forgot
+ * Succeeds whether or not the email belongs to an account, so it cannot be
+ * used to discover registered addresses.
+ * @param email - Email address of the account
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response
  */
-const getRefreshToken = (): string | null => {
-  return localStorage.getItem("refresh_token");
+export const requestPasswordResetEndpoint = async (
+  email: string,
+  signal?: AbortSignal
+): Promise<ApiResponse<null>> => {
+  return request({
+    url: `${API_BASE_URL}/auth/password/forgot`,
+    method: "POST",
+    body: { email },
+    schema: s.unchecked<null>(),
+    errorMessage: "Failed to request password reset",
+    authenticated: false,
+    signal,
+  });
 };
 
 /**
- * Helper function to check if access token is expired
+ * Validate Reset Token endpoint - Checks a password reset link before the
+ * new password is entered
+ * GET /api/v1/api-users/auth/password/reset?token=...
+ * @param token - Token from the reset link
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response containing the account email
  */
-const isTokenExpired = (): boolean => {
-  const expiresIn = localStorage.getItem("expires_in");
-  const tokenTimestamp = localStorage.getItem("token_timestamp");
-
-  if (!expiresIn || !tokenTimestamp) {
-    return true;
-  }
-
-  const expirationTime = parseInt(tokenTimestamp) + parseInt(expiresIn) * 1000;
-  return Date.now() >= expirationTime;
+export const validateResetTokenEndpoint = async (
+  token: string,
+  signal?: AbortSignal
+): Promise<ApiResponse<ResetTokenValidationData>> => {
+  return request({
+    url: `${API_BASE_URL}/auth/password/reset?token=${encodeURIComponent(token)}`,
+    schema: resetTokenValidationSchema,
+    errorMessage: "Invalid or expired reset link",
+    authenticated: false,
+    signal,
+  });
 };
 
 /**
- * Helper function to save tokens to localStorage
- */
-const saveTokens = (
-  data: RefreshTokenResponseData | LoginResponseData
-): void => {
-  localStorage.setItem("access_token", data.access_token);
-  localStorage.setItem("refresh_token", data.refresh_token);
-  localStorage.setItem("token_type", data.token_type);
-  localStorage.setItem("expires_in", data.expires_in.toString());
-  localStorage.setItem(
-    "refresh_expires_in",
-    data.refresh_expires_in.toString()
-  );
-  localStorage.setItem("token_timestamp", Date.now().toString());
+ * Reset Password endpoint - Sets a new password using a reset token
+ * POST /api/v1/api-users/auth/password/reset
+ * @param token - Token from the reset link
+ * @param newPassword - The new password
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response
+ */
+export const resetPasswordEndpoint = async (
+  token: string,
+  newPassword: string,
+  signal?: AbortSignal
+): Promise<ApiResponse<null>> => {
+  return request({
+    url: `${API_BASE_URL}/auth/password/reset`,
+    method: "POST",
+    body: { token, new_password: newPassword },
+    schema: s.unchecked<null>(),
+    errorMessage: "Failed to reset password",
+    authenticated: false,
+    signal,
+  });
 };
 
+// Refresh failures that mean the refresh token is no longer accepted
+const SESSION_ENDING_KINDS: ApiErrorKind[] = [
+  "auth",
+  "forbidden",
+  "validation",
+];
+
 /**
  * Refresh token endpoint - Refreshes the access token using refresh token
  * POST /api/v1/api-users/auth/refresh
@@ -211,109 +364,30 @@ export const refreshTokenEndpoint = async (): Promise<
   }
 
   try {
-    let response: Response;
+    let data: ApiResponse<RefreshTokenResponseData>;
     try {
       // Try sending refresh_token in body (standard OAuth2 approach)
-      response = await fetch(url, {
+      data = await request({
+        url,
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          refresh_token: refreshToken,
-        }),
+        body: { refresh_token: refreshToken },
+        schema: refreshTokenSchema,
+        errorMessage: "Token refresh failed",
+        authenticated: false,
       });
-    } catch (fetchError) {
-      if (
-        fetchError instanceof TypeError &&
-        fetchError.message.includes("fetch")
-      ) {
-        throw new ApiError(
-          "Network error: Unable to connect to the server. Please check your internet connection and try again.",
-          0,
-          fetchError
-        );
-      }
-      throw fetchError;
-    }
-
-    let data: ApiResponse<RefreshTokenResponseData>;
-    try {
-      const responseText = await response.text();
-      if (!responseText) {
-        throw new ApiError("Empty response from server", response.status);
-      }
-      data = JSON.parse(responseText);
-    } catch (parseError) {
-      if (parseError instanceof SyntaxError) {
-        throw new ApiError(
-          "Invalid response from server. Please try again later.",
-          response.status,
-          parseError
-        );
-      }
-      throw parseError;
-    }
-
-    if (!response.ok || !data.success) {
+    } catch (error) {
       // If body approach fails with 401, try Authorization header approach
-      if (response.status === 401) {
-        let headerResponse: Response;
-        try {
-          headerResponse = await fetch(url, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Authorization: `Bearer ${refreshToken}`,
-            },
-          });
-        } catch (headerFetchError) {
-          if (
-            headerFetchError instanceof TypeError &&
-            headerFetchError.message.includes("fetch")
-          ) {
-            throw new ApiError(
-              "Network error: Unable to connect to the server. Please check your internet connection and try again.",
-              0,
-              headerFetchError
-            );
-          }
-          throw headerFetchError;
-        }
-
-        let headerData: ApiResponse<RefreshTokenResponseData>;
-        try {
-          const headerResponseText = await headerResponse.text();
-          if (!headerResponseText) {
-            throw new ApiError(
-              "Empty response from server",
-              headerResponse.status
-            );
-          }
-          headerData = JSON.parse(headerResponseText);
-        } catch (headerParseError) {
-          if (headerParseError instanceof SyntaxError) {
-            throw new ApiError(
-              "Invalid response from server. Please try again later.",
-              headerResponse.status,
-              headerParseError
-            );
-          }
-          throw headerParseError;
-        }
-
-        if (!headerResponse.ok || !headerData.success) {
-          const errorMessage = headerData?.message || "Token refresh failed";
-          throw new ApiError(errorMessage, headerResponse.status, headerData);
-        }
-
-        // Save new tokens
-        saveTokens(headerData.data);
-        return headerData;
+      if (!(error instanceof ApiError && error.status === 401)) {
+        throw error;
       }
-
-      const errorMessage = data?.message || "Token refresh failed";
-      throw new ApiError(errorMessage, response.status, data);
+      data = await request({
+        url,
+        method: "POST",
+        headers: { Authorization: `Bearer ${refreshToken}` },
+        schema: refreshTokenSchema,
+        errorMessage: "Token refresh failed",
+        authenticated: false,
+      });
     }
 
     // Save new tokens
@@ -321,32 +395,122 @@ export const refreshTokenEndpoint = async (): Promise<
 
     return data;
   } catch (error) {
-    // Clear tokens on refresh failure
-    localStorage.removeItem("access_token");
-    localStorage.removeItem("refresh_token");
-    localStorage.removeItem("token_type");
-    localStorage.removeItem("expires_in");
-    localStorage.removeItem("refresh_expires_in");
-    localStorage.removeItem("token_timestamp");
-
-    if (error instanceof ApiError) {
-      throw error;
+    // Only a rejected refresh token ends the session. After network errors,
+    // timeouts or server errors the access token may still be valid, so the
+    // session is kept for a later attempt.
+    if (
+      error instanceof ApiError &&
+      SESSION_ENDING_KINDS.includes(error.kind)
+    ) {
+      clearSession("expired");
     }
-    if (error instanceof Error) {
-      throw new ApiError(error.message, undefined, error);
-    }
-    throw new ApiError(
-      "An unexpected error occurred during token refresh",
-      undefined,
-      error
-    );
+    throw error;
+  }
+};
+
+/**
+ * Logout endpoint - Revokes the refresh token on the server
+ * POST /api/v1/api-users/auth/logout
+ * Does not touch the local session; callers clear it afterwards either way.
+ * Sent without a proactive refresh, since an expired access token should not
+ * cost a refresh just to sign out.
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response
+ */
+export const logoutEndpoint = async (
+  signal?: AbortSignal
+): Promise<ApiResponse<null>> => {
+  const refreshToken = getRefreshToken();
+  const accessToken = getAccessToken();
+
+  if (!refreshToken) {
+    throw new ApiError("No refresh token available. Please login again.", 401);
+  }
+
+  return request({
+    url: `${API_BASE_URL}/auth/logout`,
+    method: "POST",
+    body: { refresh_token: refreshToken },
+    headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+    schema: s.unchecked<null>(),
+    errorMessage: "Logout failed",
+    authenticated: false,
+    // Don't keep the user waiting to sign out
+    timeoutMs: 5_000,
+    signal,
+  });
+};
+
+// Shared by concurrent callers to prevent multiple simultaneous refreshes
+let refreshPromise: Promise<void> | null = null;
+
+/**
+ * Refreshes the tokens once for all concurrent callers in this tab, and under
+ * a lock shared with other tabs. If another tab refreshed while this one
+ * waited for the lock, its new tokens are used instead of refreshing again
+ * (the old refresh token may already be revoked).
+ */
+export const refreshSession = (): Promise<void> => {
+  if (!refreshPromise) {
+    const staleRefreshToken = getRefreshToken();
+    refreshPromise = withRefreshLock(async () => {
+      reloadSession();
+      const refreshToken = getRefreshToken();
+      if (refreshToken && refreshToken !== staleRefreshToken) {
+        return;
+      }
+      await refreshTokenEndpoint();
+    }).finally(() => {
+      refreshPromise = null;
+    });
   }
+  return refreshPromise;
 };
 
-// Flag to prevent multiple simultaneous refresh requests
-let isRefreshing = false;
-let refreshPromise: Promise<ApiResponse<RefreshTokenResponseData>> | null =
-  null;
+/**
+ * Machine-readable category of an API error
+ * - network: the request never reached the server
+ * - timeout: the server did not answer within the request timeout
+ * - auth: not signed in or the session expired (401)
+ * - forbidden: signed in but not allowed (403)
+ * - not_found: the resource does not exist (404)
+ * - validation: the server rejected the input (400, 422)
+ * - rate_limited: too many requests (429)
+ * - server: the server failed (5xx)
+ * - parse: the response body was empty or not JSON
+ * - schema: the response was JSON but did not match the expected shape
+ * - aborted: the caller cancelled the request via its AbortSignal
+ * - http: any other error status or `success: false`
+ */
+export type ApiErrorKind =
+  | "network"
+  | "timeout"
+  | "auth"
+  | "forbidden"
+  | "not_found"
+  | "validation"
+  | "rate_limited"
+  | "server"
+  | "parse"
+  | "schema"
+  | "aborted"
+  | "http"
+  | "unknown";
+
+/**
+ * Derives the error kind from an HTTP status
+ */
+export const kindFromStatus = (status?: number): ApiErrorKind => {
+  if (status === undefined) return "unknown";
+  if (status === 0) return "network";
+  if (status === 400 || status === 422) return "validation";
+  if (status === 401) return "auth";
+  if (status === 403) return "forbidden";
+  if (status === 404) return "not_found";
+  if (status === 429) return "rate_limited";
+  if (status >= 500) return "server";
+  return "http";
+};
 
 /**
  * Custom error class for API errors
@@ -354,140 +518,327 @@ let refreshPromise: Promise<ApiResponse<RefreshTokenResponseData>> | null =
 export class ApiError extends Error {
   status?: number;
   data?: unknown;
-
-  constructor(message: string, status?: number, data?: unknown) {
+  kind: ApiErrorKind;
+  // Backend error code, e.g. "API_KEY_LIMIT_REACHED", when the server sends one
+  code?: string;
+  // Quota from the response headers, set on "rate_limited" errors
+  rateLimit?: RateLimitInfo;
+
+  constructor(
+    message: string,
+    status?: number,
+    data?: unknown,
+    kind: ApiErrorKind = kindFromStatus(status),
+    code?: string
+  ) {
     super(message);
     this.name = "ApiError";
     this.status = status;
     this.data = data;
+    this.kind = kind;
+    this.code = code;
     Object.setPrototypeOf(this, ApiError.prototype);
   }
 }
 
 /**
- * API client wrapper that automatically handles token refresh on 401 errors
- * @param url - The API endpoint URL
- * @param options - Fetch options
- * @param retryCount - Internal retry counter (default: 0)
- * @returns Promise with the fetch response
+ * Error thrown when a request is cancelled through its AbortSignal
  */
-export const apiClient = async (
+const abortedError = (cause?: unknown): ApiError =>
+  new ApiError("Request was cancelled", undefined, cause, "aborted");
+
+/**
+ * Calls fetch, records rate-limit headers and converts connection failures
+ * into a network ApiError
+ */
+const sendRequest = async (
   url: string,
-  options: RequestInit = {},
-  retryCount: number = 0
+  options: RequestInit
 ): Promise<Response> => {
   try {
-    // Check if token is expired and refresh proactively
-    if (isTokenExpired() && getRefreshToken() && !isRefreshing) {
-      try {
-        await refreshTokenEndpoint();
-      } catch (error) {
-        // If refresh fails, redirect to login
-        if (window.location.pathname !== "/login") {
-          window.location.href = "/login";
-        }
-        throw error;
-      }
+    const response = await fetch(url, options);
+    recordRateLimit(response);
+    return response;
+  } catch (fetchError) {
+    if (options.signal?.aborted) {
+      throw abortedError(fetchError);
+    }
+    if (
+      fetchError instanceof TypeError &&
+      fetchError.message.includes("fetch")
+    ) {
+      throw new ApiError(
+        "Network error: Unable to connect to the server. Please check your internet connection and try again.",
+        0,
+        fetchError,
+        "network"
+      );
     }
+    throw fetchError;
+  }
+};
+
+// Default time to wait for a response before giving up
+export const DEFAULT_TIMEOUT_MS = 15_000;
+
+/**
+ * Sends a request that fails with a timeout ApiError if the full response
+ * has not arrived within `timeoutMs` (0 disables the timeout). The body is
+ * read before the timer is cleared, so a server that sends headers and then
+ * stalls still times out; the returned Response holds the buffered body.
+ */
+const sendWithTimeout = async (
+  url: string,
+  options: RequestInit,
+  timeoutMs: number
+): Promise<Response> => {
+  if (timeoutMs <= 0) {
+    return sendRequest(url, options);
+  }
+
+  // Aborted by the timer or by the caller's own signal
+  const controller = new AbortController();
+  const callerSignal = options.signal;
+  const onCallerAbort = () => controller.abort();
+  if (callerSignal?.aborted) {
+    controller.abort();
+  }
+  callerSignal?.addEventListener("abort", onCallerAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
 
-    // Add auth headers if not already present
-    const headers = new Headers(options.headers);
-    const token = getAccessToken();
-    if (token && !headers.has("Authorization")) {
-      headers.set("Authorization", `Bearer ${token}`);
+  try {
+    const response = await sendRequest(url, {
+      ...options,
+      signal: controller.signal,
+    });
+    const body = await response.arrayBuffer();
+    return new Response(body.byteLength > 0 ? body : null, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  } catch (error) {
+    if (callerSignal?.aborted) {
+      throw error instanceof ApiError ? error : abortedError(error);
     }
-    if (!headers.has("Content-Type")) {
-      headers.set("Content-Type", "application/json");
+    if (controller.signal.aborted) {
+      // No status: this is not an HTTP 408 from the server
+      throw new ApiError(
+        "The server took too long to respond. Please try again.",
+        undefined,
+        error,
+        "timeout"
+      );
     }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener("abort", onCallerAbort);
+  }
+};
+
+/**
+ * Builds request headers with the current access token and JSON content type
+ */
+const buildHeaders = (init?: HeadersInit): Headers => {
+  const headers = new Headers(init);
+  const token = getAccessToken();
+  if (token && !headers.has("Authorization")) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+  if (!headers.has("Content-Type")) {
+    headers.set("Content-Type", "application/json");
+  }
+  return headers;
+};
+
+/**
+ * Retry policy for transient failures (network errors, 502/503/504, ...)
+ */
+export interface RetryPolicy {
+  // Extra attempts after the first one (0 disables retries)
+  retries: number;
+  // Base delay for exponential backoff, doubled on each attempt
+  baseDelayMs: number;
+  // Upper bound for a single delay; a longer Retry-After gives up instead
+  maxDelayMs: number;
+  // HTTP statuses treated as transient
+  retryOnStatus: number[];
+  // Retry even if the method is not idempotent (e.g. a read-only POST)
+  allowNonIdempotent: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  retryOnStatus: [408, 429, 502, 503, 504],
+  allowNonIdempotent: false,
+};
 
+// Methods that are safe to send more than once
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+/**
+ * Fetch options accepted by apiClient
+ */
+export interface ApiClientOptions extends RequestInit {
+  // Overrides for the default retry policy, or false to never retry
+  retry?: Partial<RetryPolicy> | false;
+  // Per-attempt timeout in ms (default: DEFAULT_TIMEOUT_MS, 0 disables)
+  timeoutMs?: number;
+  // Refresh the tokens and retry once on a 401 (default: true). Turn off for
+  // endpoints whose 401 means a wrong credential, not an expired token.
+  refreshOnAuthError?: boolean;
+}
+
+/**
+ * Waits for `ms`, rejecting early if the signal is aborted
+ */
+const sleep = (ms: number, signal?: AbortSignal | null): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortedError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Parses a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+const parseRetryAfter = (response: Response): number | null => {
+  const header = response.headers.get("Retry-After");
+  if (!header) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Exponential backoff with full jitter: random delay in [0, base * 2^attempt]
+ */
+const getBackoffDelay = (policy: RetryPolicy, attempt: number): number =>
+  Math.random() *
+  Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+
+/**
+ * Sends a request, retrying transient failures according to the policy.
+ * Network errors and timeouts count as transient.
+ */
+const sendWithRetry = async (
+  url: string,
+  options: RequestInit,
+  retry: ApiClientOptions["retry"],
+  timeoutMs: number
+): Promise<Response> => {
+  const method = (options.method || "GET").toUpperCase();
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...(retry || {}) };
+  const canRetry =
+    retry !== false &&
+    (policy.allowNonIdempotent || IDEMPOTENT_METHODS.includes(method));
+  const maxAttempts = canRetry ? policy.retries + 1 : 1;
+
+  for (let attempt = 0; ; attempt++) {
+    const isLastAttempt = attempt >= maxAttempts - 1;
     let response: Response;
     try {
-      response = await fetch(url, {
-        ...options,
-        headers,
-      });
-    } catch (fetchError) {
-      // Handle network errors
+      response = await sendWithTimeout(url, options, timeoutMs);
+    } catch (error) {
       if (
-        fetchError instanceof TypeError &&
-        fetchError.message.includes("fetch")
+        isLastAttempt ||
+        !(
+          error instanceof ApiError &&
+          (error.kind === "network" || error.kind === "timeout")
+        )
       ) {
-        throw new ApiError(
-          "Network error: Unable to connect to the server. Please check your internet connection and try again.",
-          0,
-          fetchError
-        );
+        throw error;
       }
-      throw fetchError;
+      await sleep(getBackoffDelay(policy, attempt), options.signal);
+      continue;
+    }
+
+    if (isLastAttempt || !policy.retryOnStatus.includes(response.status)) {
+      return response;
+    }
+
+    // Honor Retry-After, but don't keep the user waiting past maxDelayMs
+    const retryAfter = parseRetryAfter(response);
+    if (retryAfter !== null && retryAfter > policy.maxDelayMs) {
+      return response;
+    }
+    await sleep(
+      retryAfter ?? getBackoffDelay(policy, attempt),
+      options.signal
+    );
+  }
+};
+
+/**
+ * API client wrapper that automatically handles token refresh on 401 errors
+ * and retries transient failures (idempotent methods only, unless overridden)
+ * @param url - The API endpoint URL
+ * @param options - Fetch options plus optional retry policy and timeout overrides
+ * @param retryCount - Internal retry counter (default: 0)
+ * @returns Promise with the fetch response
+ */
+export const apiClient = async (
+  url: string,
+  {
+    retry,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    refreshOnAuthError = true,
+    ...options
+  }: ApiClientOptions = {},
+  retryCount: number = 0
+): Promise<Response> => {
+  try {
+    // Check if token is expired and refresh proactively
+    // (a rejected refresh ends the session, which sends the user to /login)
+    if (isAccessTokenExpired() && getRefreshToken()) {
+      await refreshSession();
     }
 
+    const response = await sendWithRetry(
+      url,
+      { ...options, headers: buildHeaders(options.headers) },
+      retry,
+      timeoutMs
+    );
+
     // Handle 401 Unauthorized - token expired
-    if (response.status === 401 && retryCount < 1) {
+    if (response.status === 401 && refreshOnAuthError && retryCount < 1) {
       const refreshToken = getRefreshToken();
 
       if (refreshToken) {
-        // Prevent multiple simultaneous refresh requests
-        if (!isRefreshing) {
-          isRefreshing = true;
-          refreshPromise = refreshTokenEndpoint();
-        }
-
-        try {
-          await refreshPromise;
-          isRefreshing = false;
-          refreshPromise = null;
-
-          // Retry the original request with new token
-          const newHeaders = new Headers(options.headers);
-          const newToken = getAccessToken();
-          if (newToken) {
-            newHeaders.set("Authorization", `Bearer ${newToken}`);
-          }
-          if (!newHeaders.has("Content-Type")) {
-            newHeaders.set("Content-Type", "application/json");
-          }
-
-          try {
-            return await fetch(url, {
-              ...options,
-              headers: newHeaders,
-            });
-          } catch (retryError) {
-            if (
-              retryError instanceof TypeError &&
-              retryError.message.includes("fetch")
-            ) {
-              throw new ApiError(
-                "Network error: Unable to connect to the server. Please check your internet connection and try again.",
-                0,
-                retryError
-              );
-            }
-            throw retryError;
-          }
-        } catch (refreshError) {
-          isRefreshing = false;
-          refreshPromise = null;
-
-          // Clear tokens and redirect to login
-          localStorage.removeItem("access_token");
-          localStorage.removeItem("refresh_token");
-          localStorage.removeItem("token_type");
-          localStorage.removeItem("expires_in");
-          localStorage.removeItem("refresh_expires_in");
-          localStorage.removeItem("token_timestamp");
-
-          if (window.location.pathname !== "/login") {
-            window.location.href = "/login";
-          }
-
-          throw refreshError;
-        }
+        // A rejected refresh has already ended the session
+        await refreshSession();
+
+        // Retry the original request with new token
+        const retryHeaders = new Headers(options.headers);
+        retryHeaders.delete("Authorization");
+        return await sendWithRetry(
+          url,
+          { ...options, headers: buildHeaders(retryHeaders) },
+          retry,
+          timeoutMs
+        );
       } else {
-        // No refresh token available, redirect to login
-        if (window.location.pathname !== "/login") {
-          window.location.href = "/login";
-        }
+        // No refresh token available - end the session
+        clearSession("expired");
         throw new ApiError("Session expired. Please login again.", 401);
       }
     }
@@ -506,6 +857,204 @@ export const apiClient = async (
   }
 };
 
+/**
+ * Options for a typed API request
+ */
+interface RequestOptions<T> {
+  url: string;
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  body?: unknown;
+  headers?: HeadersInit;
+  // Schema for the `data` field of the response envelope
+  schema: Schema<T>;
+  // Fallback message when the server does not provide one, e.g. "Failed to fetch API keys"
+  errorMessage: string;
+  // Send through apiClient with auth headers and token refresh (default: true)
+  authenticated?: boolean;
+  // Retry policy override for authenticated requests, or false to never retry
+  retry?: Partial<RetryPolicy> | false;
+  // Cancels the request; the promise then rejects with an "aborted" ApiError
+  signal?: AbortSignal;
+  // Per-attempt timeout in ms (default: DEFAULT_TIMEOUT_MS, 0 disables)
+  timeoutMs?: number;
+  // See ApiClientOptions.refreshOnAuthError
+  refreshOnAuthError?: boolean;
+}
+
+// Error envelopes may omit `message`, so it is checked as optional
+const envelopeSchema = s.object<Partial<ApiResponse<unknown>>>({
+  status: s.optional(s.number),
+  success: s.boolean,
+  message: s.optional(s.string),
+});
+
+// Message from an error body, if the server sent one
+const messageOf = (payload: unknown): string | undefined => {
+  if (typeof payload === "object" && payload !== null && "message" in payload) {
+    const { message } = payload;
+    return typeof message === "string" && message ? message : undefined;
+  }
+  return undefined;
+};
+
+// Backend error code from an error body (`error_code`, `code` or `error.code`)
+const codeOf = (payload: unknown): string | undefined => {
+  if (typeof payload !== "object" || payload === null) {
+    return undefined;
+  }
+  const body = payload as {
+    error_code?: unknown;
+    code?: unknown;
+    error?: { code?: unknown };
+  };
+  const code = body.error_code ?? body.code ?? body.error?.code;
+  return typeof code === "string" && code ? code : undefined;
+};
+
+/**
+ * Typed request core used by every endpoint
+ * Sends the request, parses the JSON body, checks the `ApiResponse<T>` envelope
+ * and validates `data` against the given schema.
+ * @returns Promise with the validated API response
+ * @throws ApiError - `kind` tells the failure category apart (see ApiErrorKind)
+ */
+const request = async <T>({
+  url,
+  method = "GET",
+  body,
+  headers,
+  schema,
+  errorMessage,
+  authenticated = true,
+  retry,
+  signal,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  refreshOnAuthError,
+}: RequestOptions<T>): Promise<ApiResponse<T>> => {
+  const init: RequestInit = {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal,
+  };
+  let rateLimit: RateLimitInfo | undefined;
+
+  try {
+    const response = authenticated
+      ? await apiClient(url, { ...init, retry, timeoutMs, refreshOnAuthError })
+      : await sendWithTimeout(
+          url,
+          {
+            ...init,
+            headers: { "Content-Type": "application/json", ...headers },
+          },
+          timeoutMs
+        );
+    rateLimit = parseRateLimit(response) ?? undefined;
+
+    let payload: unknown;
+    try {
+      const responseText = await response.text();
+      if (!responseText) {
+        throw new ApiError(
+          response.ok
+            ? "Empty response from server"
+            : `${errorMessage} (status ${response.status})`,
+          response.status,
+          undefined,
+          response.ok ? "parse" : kindFromStatus(response.status)
+        );
+      }
+      payload = JSON.parse(responseText);
+    } catch (parseError) {
+      if (signal?.aborted) {
+        throw abortedError(parseError);
+      }
+      if (parseError instanceof SyntaxError) {
+        // Error pages (e.g. a 502 from a proxy) are reported as HTTP errors
+        if (!response.ok) {
+          throw new ApiError(
+            `${errorMessage} (status ${response.status})`,
+            response.status,
+            parseError
+          );
+        }
+        throw new ApiError(
+          "Invalid response from server. Please try again later.",
+          response.status,
+          parseError,
+          "parse"
+        );
+      }
+      throw parseError;
+    }
+
+    if (!response.ok) {
+      throw new ApiError(
+        messageOf(payload) || `${errorMessage} (status ${response.status})`,
+        response.status,
+        payload,
+        kindFromStatus(response.status),
+        codeOf(payload)
+      );
+    }
+
+    try {
+      const envelope = envelopeSchema(payload, "response");
+      if (!envelope.success) {
+        // The envelope status is more specific than a 200 transport status
+        const status = envelope.status || response.status;
+        throw new ApiError(
+          envelope.message || errorMessage,
+          status,
+          envelope,
+          kindFromStatus(status),
+          codeOf(envelope)
+        );
+      }
+      schema(envelope.data, "response.data");
+      return envelope as ApiResponse<T>;
+    } catch (schemaError) {
+      if (schemaError instanceof SchemaError) {
+        throw new ApiError(
+          "Unexpected response from server. Please try again later.",
+          response.status,
+          schemaError,
+          "schema"
+        );
+      }
+      throw schemaError;
+    }
+  } catch (error) {
+    if (error instanceof ApiError) {
+      if (error.kind === "rate_limited") {
+        error.rateLimit ??= rateLimit;
+      }
+      throw error;
+    }
+    if (error instanceof Error) {
+      throw new ApiError(error.message, undefined, error);
+    }
+    throw new ApiError("An unexpected error occurred", undefined, error);
+  }
+};
+
+/**
+ * Product an API key can be restricted to - the same values as consumed_by
+ */
+export type ApiKeyScope =
+  | "product_ocr"
+  | "persona_generation_clustering"
+  | "concept_simulation"
+  | "media_simulation";
+
+export const API_KEY_SCOPES: readonly ApiKeyScope[] = [
+  "product_ocr",
+  "persona_generation_clustering",
+  "concept_simulation",
+  "media_simulation",
+];
+
 /**
  * API Key data structure (from list endpoint)
  */
@@ -513,6 +1062,16 @@ export interface ApiKeyListItem {
   id: number;
   label: string;
   masked_suffix: string;
+  // What the key is for and who is responsible for it, when set
+  description?: string | null;
+  owner?: string | null;
+  // Products the key may be used for; empty or missing means all of them
+  scopes?: ApiKeyScope[] | null;
+  // ISO timestamp after which the key stops working; null never expires
+  expires_at?: string | null;
+  // Rotation links: the key replacing this one, and the key this one replaced
+  rotated_to_key_id?: number | null;
+  rotated_from_key_id?: number | null;
 }
 
 /**
@@ -523,6 +1082,12 @@ export interface ApiKey {
   id: number | string;
   label: string;
   masked_suffix: string;
+  description?: string | null;
+  owner?: string | null;
+  scopes?: ApiKeyScope[] | null;
+  expires_at?: string | null;
+  rotated_to_key_id?: number | null;
+  rotated_from_key_id?: number | null;
   key?: string; // Only available when just created
 }
 
@@ -548,9 +1113,20 @@ export interface CreateApiKeyResponseData {
  * Create API Key Request
  */
 export interface CreateApiKeyRequest {
-  access_token?: string;
+  label: string;
+  description?: string;
+  owner?: string;
+  // Leave out for a key that works with every product
+  scopes?: ApiKeyScope[];
+  // ISO timestamp; leave out for a key that never expires
+  expires_at?: string;
 }
 
+/**
+ * Update API Key Request - omitted fields are left unchanged
+ */
+export type UpdateApiKeyRequest = Partial<CreateApiKeyRequest>;
+
 /**
  * Delete API Key Request
  */
@@ -558,196 +1134,206 @@ export interface DeleteApiKeyRequest {
   key_id: string;
 }
 
+const apiKeyListItemSchema = s.object<ApiKeyListItem>({
+  id: s.number,
+  label: s.string,
+  masked_suffix: s.string,
+  description: s.optional(s.nullable(s.string)),
+  owner: s.optional(s.nullable(s.string)),
+  scopes: s.optional(s.nullable(s.array(s.literal(...API_KEY_SCOPES)))),
+  expires_at: s.optional(s.nullable(s.string)),
+  rotated_to_key_id: s.optional(s.nullable(s.number)),
+  rotated_from_key_id: s.optional(s.nullable(s.number)),
+});
+
+const listApiKeysSchema = s.object<ListApiKeysResponseData>({
+  keys: s.array(apiKeyListItemSchema),
+  total: s.number,
+  max_allowed: s.number,
+});
+
+const createApiKeySchema = s.object<CreateApiKeyResponseData>({
+  api_key: s.string,
+  total_keys: s.number,
+  max_allowed: s.number,
+});
+
 /**
  * Create API Key endpoint - Creates a new API key for the authenticated user
  * POST /api/v1/api-users/auth/api-keys
+ * @param data - Label and optional description/owner for the key
+ * @param signal - Optional AbortSignal to cancel the request
  * @returns Promise with API response containing the new API key
  */
-export const createApiKeyEndpoint = async (): Promise<
-  ApiResponse<CreateApiKeyResponseData>
-> => {
-  const url = `${API_BASE_URL}/auth/api-keys`;
-
-  try {
-    const response = await apiClient(url, {
-      method: "POST",
-      body: JSON.stringify({}),
-    });
-
-    let data: ApiResponse<CreateApiKeyResponseData>;
-    try {
-      const responseText = await response.text();
-      if (!responseText) {
-        throw new ApiError("Empty response from server", response.status);
-      }
-      data = JSON.parse(responseText);
-    } catch (parseError) {
-      if (parseError instanceof SyntaxError) {
-        throw new ApiError(
-          "Invalid response from server. Please try again later.",
-          response.status,
-          parseError
-        );
-      }
-      throw parseError;
-    }
-
-    if (!response.ok) {
-      const errorMessage =
-        data?.message || `Failed to create API key (status ${response.status})`;
-      throw new ApiError(errorMessage, response.status, data);
-    }
-
-    if (!data.success) {
-      throw new ApiError(
-        data.message || "Failed to create API key",
-        response.status,
-        data
-      );
-    }
-
-    return data;
-  } catch (error) {
-    if (error instanceof ApiError) {
-      throw error;
-    }
-    if (error instanceof Error) {
-      throw new ApiError(error.message, undefined, error);
-    }
-    throw new ApiError(
-      "An unexpected error occurred while creating API key",
-      undefined,
-      error
-    );
-  }
-};
+export const createApiKeyEndpoint = async (
+  data: CreateApiKeyRequest,
+  signal?: AbortSignal
+): Promise<ApiResponse<CreateApiKeyResponseData>> =>
+  request({
+    url: `${API_BASE_URL}/auth/api-keys`,
+    method: "POST",
+    body: data,
+    schema: createApiKeySchema,
+    errorMessage: "Failed to create API key",
+    signal,
+  });
 
 /**
  * List API Keys endpoint - Retrieves all API keys for the authenticated user
  * GET /api/v1/api-users/auth/api-keys
+ * @param signal - Optional AbortSignal to cancel the request
  * @returns Promise with API response containing list of API keys
  */
-export const listApiKeysEndpoint = async (): Promise<
-  ApiResponse<ListApiKeysResponseData>
-> => {
-  const url = `${API_BASE_URL}/auth/api-keys`;
+export const listApiKeysEndpoint = async (
+  signal?: AbortSignal
+): Promise<ApiResponse<ListApiKeysResponseData>> =>
+  request({
+    url: `${API_BASE_URL}/auth/api-keys`,
+    schema: listApiKeysSchema,
+    errorMessage: "Failed to fetch API keys",
+    signal,
+  });
 
-  try {
-    const response = await apiClient(url, {
-      method: "GET",
-    });
+/**
+ * Update API Key endpoint - Renames an API key or changes its details
+ * PATCH /api/v1/api-users/auth/api-keys/{key_id}
+ * @param keyId - The ID of the API key to update
+ * @param data - Fields to change
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response containing the updated key
+ */
+export const updateApiKeyEndpoint = async (
+  keyId: number | string,
+  data: UpdateApiKeyRequest,
+  signal?: AbortSignal
+): Promise<ApiResponse<ApiKeyListItem>> =>
+  request({
+    url: `${API_BASE_URL}/auth/api-keys/${keyId}`,
+    method: "PATCH",
+    body: data,
+    schema: apiKeyListItemSchema,
+    errorMessage: "Failed to update API key",
+    signal,
+  });
 
-    let data: ApiResponse<ListApiKeysResponseData>;
-    try {
-      const responseText = await response.text();
-      if (!responseText) {
-        throw new ApiError("Empty response from server", response.status);
-      }
-      data = JSON.parse(responseText);
-    } catch (parseError) {
-      if (parseError instanceof SyntaxError) {
-        throw new ApiError(
-          "Invalid response from server. Please try again later.",
-          response.status,
-          parseError
-        );
-      }
-      throw parseError;
-    }
+/**
+ * Rotate API Key Response Data
+ */
+export interface RotateApiKeyResponseData {
+  // Full successor key - only returned once
+  api_key: string;
+  key_id: number;
+  // When the old key is revoked, at the end of the grace period
+  previous_key_expires_at: string;
+}
 
-    if (!response.ok) {
-      const errorMessage =
-        data?.message || `Failed to fetch API keys (status ${response.status})`;
-      throw new ApiError(errorMessage, response.status, data);
-    }
+const rotateApiKeySchema = s.object<RotateApiKeyResponseData>({
+  api_key: s.string,
+  key_id: s.number,
+  previous_key_expires_at: s.string,
+});
 
-    if (!data.success) {
-      throw new ApiError(
-        data.message || "Failed to fetch API keys",
-        response.status,
-        data
-      );
-    }
+/**
+ * Rotate API Key endpoint - Issues a successor key and schedules the old key
+ * to be revoked once the grace period ends. The old key does not count
+ * against max_allowed while it is being rotated out.
+ * POST /api/v1/api-users/auth/api-keys/{key_id}/rotate
+ * @param keyId - The ID of the API key to replace
+ * @param gracePeriodHours - How long the old key keeps working
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response containing the successor key
+ */
+export const rotateApiKeyEndpoint = async (
+  keyId: number | string,
+  gracePeriodHours: number,
+  signal?: AbortSignal
+): Promise<ApiResponse<RotateApiKeyResponseData>> =>
+  request({
+    url: `${API_BASE_URL}/auth/api-keys/${keyId}/rotate`,
+    method: "POST",
+    body: { grace_period_hours: gracePeriodHours },
+    schema: rotateApiKeySchema,
+    errorMessage: "Failed to rotate API key",
+    // Never repeat - a retried rotation would issue a second successor
+    retry: false,
+    signal,
+  });
 
-    return data;
-  } catch (error) {
-    if (error instanceof ApiError) {
-      throw error;
-    }
-    if (error instanceof Error) {
-      throw new ApiError(error.message, undefined, error);
-    }
-    throw new ApiError(
-      "An unexpected error occurred while fetching API keys",
-      undefined,
-      error
-    );
-  }
-};
+/**
+ * Monthly credit budget of an API key. Either threshold can be left unset.
+ */
+export interface ApiKeyBudgetRequest {
+  // Credits per month after which the account is notified
+  soft_limit: number | null;
+  // Credits per month after which the key's requests are rejected
+  hard_limit: number | null;
+}
+
+export type ApiKeyBudgetStatus =
+  | "ok"
+  | "soft_limit_reached"
+  | "hard_limit_reached";
+
+/**
+ * Budget consumption of an API key for the current month
+ */
+export interface ApiKeyBudgetState extends ApiKeyBudgetRequest {
+  credits_used: number;
+  period_start: string;
+  period_end: string;
+  status: ApiKeyBudgetStatus;
+}
+
+const apiKeyBudgetStateSchema = s.object<ApiKeyBudgetState>({
+  soft_limit: s.nullable(s.number),
+  hard_limit: s.nullable(s.number),
+  credits_used: s.number,
+  period_start: s.string,
+  period_end: s.string,
+  status: s.literal("ok", "soft_limit_reached", "hard_limit_reached"),
+});
+
+/**
+ * Set API Key Budget endpoint - Sets the monthly credit budget of an API key.
+ * Send both limits as null to remove the budget.
+ * PUT /api/v1/api-users/auth/api-keys/{key_id}/budget
+ * @param keyId - The ID of the API key
+ * @param budget - Soft and hard monthly credit limits
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response containing the key's budget state
+ */
+export const setApiKeyBudgetEndpoint = async (
+  keyId: number | string,
+  budget: ApiKeyBudgetRequest,
+  signal?: AbortSignal
+): Promise<ApiResponse<ApiKeyBudgetState>> =>
+  request({
+    url: `${API_BASE_URL}/auth/api-keys/${keyId}/budget`,
+    method: "PUT",
+    body: budget,
+    schema: apiKeyBudgetStateSchema,
+    errorMessage: "Failed to update budget",
+    signal,
+  });
 
 /**
  * Delete API Key endpoint - Revokes an API key by its ID
  * DELETE /api/v1/api-users/auth/api-keys/{key_id}
  * @param keyId - The ID of the API key to revoke
+ * @param signal - Optional AbortSignal to cancel the request
  * @returns Promise with API response
  */
 export const deleteApiKeyEndpoint = async (
-  keyId: number | string
-): Promise<ApiResponse<null>> => {
-  const url = `${API_BASE_URL}/auth/api-keys/${keyId}`;
-
-  try {
-    const response = await apiClient(url, {
-      method: "DELETE",
-    });
-
-    let data: ApiResponse<null>;
-    try {
-      const responseText = await response.text();
-      if (!responseText) {
-        throw new ApiError("Empty response from server", response.status);
-      }
-      data = JSON.parse(responseText);
-    } catch (parseError) {
-      if (parseError instanceof SyntaxError) {
-        throw new ApiError(
-          "Invalid response from server. Please try again later.",
-          response.status,
-          parseError
-        );
-      }
-      throw parseError;
-    }
-
-    if (!response.ok) {
-      const errorMessage =
-        data?.message || `Failed to delete API key (status ${response.status})`;
-      throw new ApiError(errorMessage, response.status, data);
-    }
-
-    if (!data.success) {
-      throw new ApiError(
-        data.message || "Failed to delete API key",
-        response.status,
-        data
-      );
-    }
-
-    return data;
-  } catch (error) {
-    if (error instanceof ApiError) {
-      throw error;
-    }
-    if (error instanceof Error) {
-      throw new ApiError(error.message, undefined, error);
-    }
-    throw new ApiError(
-      "An unexpected error occurred while deleting API key",
-      undefined,
-      error
-    );
-  }
-};
+  keyId: number | string,
+  signal?: AbortSignal
+): Promise<ApiResponse<null>> =>
+  request({
+    url: `${API_BASE_URL}/auth/api-keys/${keyId}`,
+    method: "DELETE",
+    schema: s.unchecked<null>(),
+    errorMessage: "Failed to delete API key",
+    signal,
+  });
 
 /**
  * API Key Stats Request
@@ -756,12 +1342,7 @@ export interface ApiKeyStatsRequest {
   key_id: number | null;
   date_from: string | null;
   date_to: string | null;
-  consumed_by?:
-    | "product_ocr"
-    | "persona_generation_clustering"
-    | "concept_simulation"
-    | "media_simulation"
-    | null;
+  consumed_by?: ApiKeyScope | null;
   granularity?: "daily" | "weekly" | "monthly";
   include_chart_data?: boolean;
   charts_only?: boolean;
@@ -820,7 +1401,10 @@ export interface ApiKeyStatsItem {
     [key: string]: number;
   };
   average_credits_per_record: number;
-  chart_data: ChartData;
+  // Only sent when include_chart_data is set
+  chart_data?: ChartData;
+  // Absent when the key has no budget
+  budget?: ApiKeyBudgetState | null;
 }
 
 /**
@@ -838,7 +1422,10 @@ export interface ApiKeyStatsResponseData {
     [key: string]: number;
   };
   average_credits_per_record: number;
-  chart_data: ChartData;
+  // Only sent when include_chart_data is set
+  chart_data?: ChartData;
+  // Absent when the key has no budget
+  budget?: ApiKeyBudgetState | null;
 }
 
 /**
@@ -848,73 +1435,74 @@ export interface OverviewStatsResponseData {
   keys: ApiKeyStatsItem[];
 }
 
+const timeSeriesPointSchema = s.object<TimeSeriesDataPoint>({
+  date: s.string,
+  credits: s.number,
+  records: s.number,
+});
+
+const chartDataSchema = s.object<ChartData>({
+  time_series: s.array(timeSeriesPointSchema),
+  time_series_by_type: s.array(
+    s.object<TimeSeriesByTypeDataPoint>({
+      date: s.string,
+      credits_by_type: s.record(s.number),
+      total_credits: s.number,
+    })
+  ),
+  cumulative_totals: s.array(timeSeriesPointSchema),
+});
+
+const apiKeyStatsSchema = s.object<ApiKeyStatsResponseData>({
+  key_id: s.nullable(s.number),
+  total_credits_used: s.number,
+  total_records: s.number,
+  credits_by_consumed_by: s.record(s.number),
+  records_by_consumed_by: s.record(s.number),
+  average_credits_per_record: s.number,
+  chart_data: s.optional(chartDataSchema),
+  budget: s.optional(s.nullable(apiKeyBudgetStateSchema)),
+});
+
+const overviewStatsSchema = s.object<OverviewStatsResponseData>({
+  keys: s.array(
+    s.object<ApiKeyStatsItem>({
+      key_id: s.number,
+      total_credits_used: s.number,
+      total_records: s.number,
+      credits_by_consumed_by: s.record(s.number),
+      records_by_consumed_by: s.record(s.number),
+      chart_data: s.optional(chartDataSchema),
+      budget: s.optional(s.nullable(apiKeyBudgetStateSchema)),
+    })
+  ),
+});
+
 /**
  * Get API Key Stats endpoint - Retrieves statistics for API keys
  * POST /api/v1/api-users/stats/
- * @param request - Stats request parameters
+ * @param statsRequest - Stats request parameters
+ * @param signal - Optional AbortSignal to cancel the request
  * @returns Promise with API response containing stats data (single key or overview with keys array)
  */
 export const getApiKeyStatsEndpoint = async (
-  request: ApiKeyStatsRequest
+  statsRequest: ApiKeyStatsRequest,
+  signal?: AbortSignal
 ): Promise<
   ApiResponse<ApiKeyStatsResponseData | OverviewStatsResponseData>
-> => {
-  const url = `${API_BASE_URL}/stats/`;
-
-  try {
-    const response = await apiClient(url, {
-      method: "POST",
-      body: JSON.stringify(request),
-    });
-
-    let data: ApiResponse<ApiKeyStatsResponseData | OverviewStatsResponseData>;
-    try {
-      const responseText = await response.text();
-      if (!responseText) {
-        throw new ApiError("Empty response from server", response.status);
-      }
-      data = JSON.parse(responseText);
-    } catch (parseError) {
-      if (parseError instanceof SyntaxError) {
-        throw new ApiError(
-          "Invalid response from server. Please try again later.",
-          response.status,
-          parseError
-        );
-      }
-      throw parseError;
-    }
-
-    if (!response.ok) {
-      const errorMessage =
-        data?.message ||
-        `Failed to fetch API key stats (status ${response.status})`;
-      throw new ApiError(errorMessage, response.status, data);
-    }
-
-    if (!data.success) {
-      throw new ApiError(
-        data.message || "Failed to fetch API key stats",
-        response.status,
-        data
-      );
-    }
-
-    return data;
-  } catch (error) {
-    if (error instanceof ApiError) {
-      throw error;
-    }
-    if (error instanceof Error) {
-      throw new ApiError(error.message, undefined, error);
-    }
-    throw new ApiError(
-      "An unexpected error occurred while fetching API key stats",
-      undefined,
-      error
-    );
-  }
-};
+> =>
+  request({
+    url: `${API_BASE_URL}/stats/`,
+    method: "POST",
+    body: statsRequest,
+    schema: s.union(overviewStatsSchema, apiKeyStatsSchema),
+    errorMessage: "Failed to fetch API key stats",
+    // Stats are read-only, so retrying the POST is safe
+    retry: { allowNonIdempotent: true },
+    // Aggregating chart data over long ranges can be slow
+    timeoutMs: 30_000,
+    signal,
+  });
 
 /**
  * Subscription Plan Pricing
@@ -963,79 +1551,37 @@ export interface SubscriptionPlan {
   updated_at: string;
 }
 
+const subscriptionPlanSchema = s.object<SubscriptionPlan>({
+  _id: s.string,
+  name: s.string,
+  plan_type: s.string,
+  pricing: s.array(
+    s.object<SubscriptionPlanPricing>({
+      monthly: s.nullable(s.number),
+      yearly: s.nullable(s.number),
+      currency: s.string,
+    })
+  ),
+  max_users: s.number,
+  credits: s.number,
+  no_of_parallel_simulations: s.number,
+});
+
 /**
  * Get Plan Associated With User endpoint - Retrieves the subscription plan associated with the authenticated user
  * GET /api/v1/subscription/plan/associated-with-user
+ * @param signal - Optional AbortSignal to cancel the request
  * @returns Promise with API response containing subscription plan data
  */
-export const getSubscriptionPlanEndpoint = async (): Promise<
-  ApiResponse<SubscriptionPlan>
-> => {
-  // Construct base URL for subscription endpoint
-  // If VITE_API_BASE_URL is like 'https://api.zcoded.acutusai.com/api/v1/api-users',
-  // we need to get 'https://api.zcoded.acutusai.com/api/v1' and append '/subscription/plan/associated-with-user'
-  const baseUrl =
-    import.meta.env.VITE_API_BASE_URL ||
-    "https://api.zcoded.acutusai.com/api/v1/api-users";
-  // Remove '/api-users' if present, or use the base URL if it already ends with '/api/v1'
-  const apiBaseUrl =
-    baseUrl.replace(/\/api-users\/?$/, "") ||
-    "https://api.zcoded.acutusai.com/api/v1";
-  const url = `${apiBaseUrl}/subscription/plan/associated-with-user`;
-
-  try {
-    const response = await apiClient(url, {
-      method: "GET",
-    });
-
-    let data: ApiResponse<SubscriptionPlan>;
-    try {
-      const responseText = await response.text();
-      if (!responseText) {
-        throw new ApiError("Empty response from server", response.status);
-      }
-      data = JSON.parse(responseText);
-    } catch (parseError) {
-      if (parseError instanceof SyntaxError) {
-        throw new ApiError(
-          "Invalid response from server. Please try again later.",
-          response.status,
-          parseError
-        );
-      }
-      throw parseError;
-    }
-
-    if (!response.ok) {
-      const errorMessage =
-        data?.message ||
-        `Failed to fetch subscription plan (status ${response.status})`;
-      throw new ApiError(errorMessage, response.status, data);
-    }
-
-    if (!data.success) {
-      throw new ApiError(
-        data.message || "Failed to fetch subscription plan",
-        response.status,
-        data
-      );
-    }
-
-    return data;
-  } catch (error) {
-    if (error instanceof ApiError) {
-      throw error;
-    }
-    if (error instanceof Error) {
-      throw new ApiError(error.message, undefined, error);
-    }
-    throw new ApiError(
-      "An unexpected error occurred while fetching subscription plan",
-      undefined,
-      error
-    );
-  }
-};
+export const getSubscriptionPlanEndpoint = async (
+  signal?: AbortSignal
+): Promise<ApiResponse<SubscriptionPlan>> =>
+  request({
+    url: `${API_ROOT_URL}/subscription/plan/associated-with-user`,
+    schema: subscriptionPlanSchema,
+    errorMessage: "Failed to fetch subscription plan",
+    signal,
+  });
 
 /**
  * Subscription Checkout Request
@@ -1059,116 +1605,477 @@ export interface SubscriptionCheckoutResponseData {
   billing_cycle: string;
 }
 
+const subscriptionCheckoutSchema = s.object<SubscriptionCheckoutResponseData>({
+  razorpay_key_id: s.string,
+  subscription_id: s.string,
+  amount: s.number,
+  currency: s.string,
+});
+
 /**
  * Create Subscription Checkout endpoint - Creates a checkout session for subscription
  * POST /api/v1/subscription/checkout
  * @param plan_id - The subscription plan ID
  * @param billing_cycle - The billing cycle (monthly or yearly), optional
  * @param currency - The currency code (e.g., "INR")
+ * @param signal - Optional AbortSignal to cancel the request
  * @returns Promise with API response containing checkout data
  */
 export const createSubscriptionCheckoutEndpoint = async (
   plan_id: string,
   billing_cycle: string | null,
-  currency: string
+  currency: string,
+  signal?: AbortSignal
 ): Promise<ApiResponse<SubscriptionCheckoutResponseData>> => {
-  const baseUrl =
-    import.meta.env.VITE_API_BASE_URL ||
-    "https://api.zcoded.acutusai.com/api/v1/api-users";
-  const apiBaseUrl =
-    baseUrl.replace(/\/api-users\/?$/, "") ||
-    "https://api.zcoded.acutusai.com/api/v1";
-  const url = `${apiBaseUrl}/subscription/checkout`;
-
-  try {
-    // Build request body - only include billing_cycle if it's not null
-    const requestBody: SubscriptionCheckoutRequest = {
-      plan_id,
-      currency,
-    };
+  // Build request body - only include billing_cycle if it's not null
+  const requestBody: SubscriptionCheckoutRequest = {
+    plan_id,
+    currency,
+  };
 
-    if (billing_cycle !== null && billing_cycle !== undefined) {
-      requestBody.billing_cycle = billing_cycle;
-    }
+  if (billing_cycle !== null && billing_cycle !== undefined) {
+    requestBody.billing_cycle = billing_cycle;
+  }
 
-    const response = await apiClient(url, {
-      method: "POST",
-      body: JSON.stringify(requestBody),
-    });
+  return request({
+    url: `${API_ROOT_URL}/subscription/checkout`,
+    method: "POST",
+    body: requestBody,
+    schema: subscriptionCheckoutSchema,
+    errorMessage: "Failed to create subscription checkout",
+    // Never repeat a checkout - it could create a duplicate subscription
+    retry: false,
+    // Payment provider round-trip on the server side
+    timeoutMs: 30_000,
+    signal,
+  });
+};
 
-    let data: ApiResponse<SubscriptionCheckoutResponseData>;
-    try {
-      const responseText = await response.text();
-      if (!responseText) {
-        throw new ApiError("Empty response from server", response.status);
-      }
-      data = JSON.parse(responseText);
-    } catch (parseError) {
-      if (parseError instanceof SyntaxError) {
-        throw new ApiError(
-          "Invalid response from server. Please try again later.",
-          response.status,
-          parseError
-        );
-      }
-      throw parseError;
-    }
+/**
+ * User Profile endpoint - Fetches the signed-in user's current data
+ * GET /api/v1/api-users/auth/me
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response containing the user profile
+ */
+export const getUserProfileEndpoint = async (
+  signal?: AbortSignal
+): Promise<ApiResponse<User>> => {
+  return request({
+    url: `${API_BASE_URL}/auth/me`,
+    schema: userSchema,
+    errorMessage: "Failed to fetch user profile",
+    signal,
+  });
+};
 
-    if (!response.ok) {
-      const errorMessage =
-        data?.message ||
-        `Failed to create subscription checkout (status ${response.status})`;
-      throw new ApiError(errorMessage, response.status, data);
-    }
+// Editable profile fields - omitted fields are left unchanged
+export interface UpdateUserProfileRequest {
+  first_name?: string;
+  last_name?: string;
+}
 
-    if (!data.success) {
-      throw new ApiError(
-        data.message || "Failed to create subscription checkout",
-        response.status,
-        data
-      );
-    }
+/**
+ * Update User Profile endpoint - Updates the signed-in user's profile
+ * PATCH /api/v1/api-users/auth/me
+ * @param data - Fields to change
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response containing the updated user
+ */
+export const updateUserProfileEndpoint = async (
+  data: UpdateUserProfileRequest,
+  signal?: AbortSignal
+): Promise<ApiResponse<User>> => {
+  return request({
+    url: `${API_BASE_URL}/auth/me`,
+    method: "PATCH",
+    body: data,
+    schema: userSchema,
+    errorMessage: "Failed to update profile",
+    signal,
+  });
+};
 
-    return data;
-  } catch (error) {
-    if (error instanceof ApiError) {
-      throw error;
-    }
-    if (error instanceof Error) {
-      throw new ApiError(error.message, undefined, error);
-    }
-    throw new ApiError(
-      "An unexpected error occurred while creating subscription checkout",
-      undefined,
-      error
-    );
-  }
+/**
+ * Change Password endpoint - Changes the signed-in user's password
+ * POST /api/v1/api-users/auth/password/change
+ * @param currentPassword - The current password, to confirm the change
+ * @param newPassword - The new password
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response
+ */
+export const changePasswordEndpoint = async (
+  currentPassword: string,
+  newPassword: string,
+  signal?: AbortSignal
+): Promise<ApiResponse<null>> => {
+  return request({
+    url: `${API_BASE_URL}/auth/password/change`,
+    method: "POST",
+    body: { current_password: currentPassword, new_password: newPassword },
+    schema: s.unchecked<null>(),
+    errorMessage: "Failed to change password",
+    // Never repeat - a retried change would fail on the old password
+    retry: false,
+    // A 401 here means the current password is wrong
+    refreshOnAuthError: false,
+    signal,
+  });
 };
 
 /**
- * Refresh User Data endpoint - Fetches fresh user data from login endpoint
- * POST /api/v1/api-users/auth/login
- * Uses stored email and password from sessionStorage to refresh user data
- * @returns Promise with API response containing fresh user data and tokens
+ * Two-factor enrollment data - secret to add to an authenticator app
  */
-export const refreshUserDataEndpoint = async (): Promise<
-  ApiResponse<LoginResponseData>
-> => {
-  const email = localStorage.getItem("userEmail");
-  const password = sessionStorage.getItem("userPassword");
+export interface TwoFactorEnrollmentData {
+  // Base32 secret, for manual entry
+  secret: string;
+  otpauth_url: string;
+  // QR code of otpauth_url as a data URL (image/png)
+  qr_code: string;
+}
 
-  if (!email || !password) {
-    throw new ApiError("Email or password not found. Please login again.", 401);
-  }
+// Returned once when 2FA is enabled
+export interface TwoFactorRecoveryCodesData {
+  recovery_codes: string[];
+}
+
+const twoFactorEnrollmentSchema = s.object<TwoFactorEnrollmentData>({
+  secret: s.string,
+  otpauth_url: s.string,
+  qr_code: s.string,
+});
 
-  return loginEndpoint(email, password);
+const twoFactorRecoveryCodesSchema = s.object<TwoFactorRecoveryCodesData>({
+  recovery_codes: s.array(s.string),
+});
+
+/**
+ * Start Two-Factor Enrollment endpoint - Creates a new TOTP secret
+ * POST /api/v1/api-users/auth/2fa/enroll
+ * 2FA is not enabled until the secret is confirmed with a code.
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response containing the secret and its QR code
+ */
+export const startTwoFactorEnrollmentEndpoint = async (
+  signal?: AbortSignal
+): Promise<ApiResponse<TwoFactorEnrollmentData>> => {
+  return request({
+    url: `${API_BASE_URL}/auth/2fa/enroll`,
+    method: "POST",
+    body: {},
+    schema: twoFactorEnrollmentSchema,
+    errorMessage: "Failed to start two-factor setup",
+    signal,
+  });
+};
+
+/**
+ * Confirm Two-Factor Enrollment endpoint - Enables 2FA
+ * POST /api/v1/api-users/auth/2fa/enroll/confirm
+ * @param code - Current 6-digit code from the authenticator app
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response containing one-time recovery codes
+ */
+export const confirmTwoFactorEnrollmentEndpoint = async (
+  code: string,
+  signal?: AbortSignal
+): Promise<ApiResponse<TwoFactorRecoveryCodesData>> => {
+  return request({
+    url: `${API_BASE_URL}/auth/2fa/enroll/confirm`,
+    method: "POST",
+    body: { code },
+    schema: twoFactorRecoveryCodesSchema,
+    errorMessage: "Failed to enable two-factor authentication",
+    // A 401 here means the code is wrong
+    refreshOnAuthError: false,
+    signal,
+  });
+};
+
+/**
+ * Disable Two-Factor endpoint - Turns off 2FA
+ * POST /api/v1/api-users/auth/2fa/disable
+ * @param code - Current 6-digit code or a recovery code
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response
+ */
+export const disableTwoFactorEndpoint = async (
+  code: string,
+  signal?: AbortSignal
+): Promise<ApiResponse<null>> => {
+  return request({
+    url: `${API_BASE_URL}/auth/2fa/disable`,
+    method: "POST",
+    body: { code },
+    schema: s.unchecked<null>(),
+    errorMessage: "Failed to disable two-factor authentication",
+    signal,
+  });
 };
 
 /**
- * Future API endpoints will be added here:
- *
- * export const registerEndpoint = async (data: RegisterData) => { ... }
- * export const logoutEndpoint = async () => { ... }
- * export const getUserProfileEndpoint = async (userId: string) => { ... }
- * export const updateUserProfileEndpoint = async (userId: string, data: UpdateData) => { ... }
+ * Active Session - one signed-in device, backed by a refresh token
+ */
+export interface ActiveSession {
+  id: string;
+  // Browser and OS, as parsed from the user agent
+  device: string;
+  ip_address: string;
+  created_at: string;
+  last_seen_at: string;
+  // Whether this is the session making the request
+  is_current: boolean;
+}
+
+/**
+ * List Sessions Response Data
+ */
+export interface ListSessionsResponseData {
+  sessions: ActiveSession[];
+}
+
+const activeSessionSchema = s.object<ActiveSession>({
+  id: s.string,
+  device: s.string,
+  ip_address: s.string,
+  created_at: s.string,
+  last_seen_at: s.string,
+  is_current: s.boolean,
+});
+
+const listSessionsSchema = s.object<ListSessionsResponseData>({
+  sessions: s.array(activeSessionSchema),
+});
+
+/**
+ * List Sessions endpoint - Retrieves the user's active sessions
+ * GET /api/v1/api-users/auth/sessions
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response containing the sessions
+ */
+export const listSessionsEndpoint = async (
+  signal?: AbortSignal
+): Promise<ApiResponse<ListSessionsResponseData>> =>
+  request({
+    url: `${API_BASE_URL}/auth/sessions`,
+    method: "GET",
+    schema: listSessionsSchema,
+    errorMessage: "Failed to fetch sessions",
+    signal,
+  });
+
+/**
+ * Revoke Session endpoint - Signs out one session by its ID
+ * DELETE /api/v1/api-users/auth/sessions/{session_id}
+ * @param sessionId - The ID of the session to revoke
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response
+ */
+export const revokeSessionEndpoint = async (
+  sessionId: string,
+  signal?: AbortSignal
+): Promise<ApiResponse<null>> =>
+  request({
+    url: `${API_BASE_URL}/auth/sessions/${encodeURIComponent(sessionId)}`,
+    method: "DELETE",
+    schema: s.unchecked<null>(),
+    errorMessage: "Failed to sign out session",
+    signal,
+  });
+
+/**
+ * Revoke All Sessions endpoint - Signs out every session, this one included
+ * DELETE /api/v1/api-users/auth/sessions
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response
+ */
+export const revokeAllSessionsEndpoint = async (
+  signal?: AbortSignal
+): Promise<ApiResponse<null>> =>
+  request({
+    url: `${API_BASE_URL}/auth/sessions`,
+    method: "DELETE",
+    schema: s.unchecked<null>(),
+    errorMessage: "Failed to sign out sessions",
+    signal,
+  });
+
+/**
+ * Team Member - a user sharing this account's subscription
+ */
+export interface TeamMember {
+  id: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  role: string;
+  joined_at: string;
+}
+
+/**
+ * Team Invitation - a pending invite, holding a seat until it is accepted
+ */
+export interface TeamInvitation {
+  id: string;
+  email: string;
+  role: string;
+  invited_at: string;
+  expires_at: string;
+}
+
+/**
+ * Team Response Data
+ */
+export interface TeamResponseData {
+  members: TeamMember[];
+  invitations: TeamInvitation[];
+}
+
+/**
+ * Invite Team Member Request
+ */
+export interface InviteTeamMemberRequest {
+  email: string;
+  role: string;
+}
+
+const teamMemberSchema = s.object<TeamMember>({
+  id: s.string,
+  email: s.string,
+  first_name: s.string,
+  last_name: s.string,
+  role: s.string,
+  joined_at: s.string,
+});
+
+const teamInvitationSchema = s.object<TeamInvitation>({
+  id: s.string,
+  email: s.string,
+  role: s.string,
+  invited_at: s.string,
+  expires_at: s.string,
+});
+
+const teamSchema = s.object<TeamResponseData>({
+  members: s.array(teamMemberSchema),
+  invitations: s.array(teamInvitationSchema),
+});
+
+/**
+ * Get Team endpoint - Retrieves the team's members and pending invitations
+ * GET /api/v1/api-users/team
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response containing members and invitations
+ */
+export const getTeamEndpoint = async (
+  signal?: AbortSignal
+): Promise<ApiResponse<TeamResponseData>> =>
+  request({
+    url: `${API_BASE_URL}/team`,
+    method: "GET",
+    schema: teamSchema,
+    errorMessage: "Failed to fetch team",
+    signal,
+  });
+
+/**
+ * Invite Team Member endpoint - Emails an invitation to join the team
+ * POST /api/v1/api-users/team/invitations
+ * @param data - Email to invite and the role they will get
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response containing the invitation
+ */
+export const inviteTeamMemberEndpoint = async (
+  data: InviteTeamMemberRequest,
+  signal?: AbortSignal
+): Promise<ApiResponse<TeamInvitation>> =>
+  request({
+    url: `${API_BASE_URL}/team/invitations`,
+    method: "POST",
+    body: data,
+    schema: teamInvitationSchema,
+    errorMessage: "Failed to send invitation",
+    // Never repeat - a retried invite could email the person twice
+    retry: false,
+    signal,
+  });
+
+/**
+ * Resend Invitation endpoint - Emails a pending invitation again
+ * POST /api/v1/api-users/team/invitations/{invitation_id}/resend
+ * @param invitationId - The ID of the invitation to resend
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response containing the renewed invitation
+ */
+export const resendInvitationEndpoint = async (
+  invitationId: string,
+  signal?: AbortSignal
+): Promise<ApiResponse<TeamInvitation>> =>
+  request({
+    url: `${API_BASE_URL}/team/invitations/${encodeURIComponent(invitationId)}/resend`,
+    method: "POST",
+    body: {},
+    schema: teamInvitationSchema,
+    errorMessage: "Failed to resend invitation",
+    retry: false,
+    signal,
+  });
+
+/**
+ * Cancel Invitation endpoint - Withdraws a pending invitation
+ * DELETE /api/v1/api-users/team/invitations/{invitation_id}
+ * @param invitationId - The ID of the invitation to cancel
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response
+ */
+export const cancelInvitationEndpoint = async (
+  invitationId: string,
+  signal?: AbortSignal
+): Promise<ApiResponse<null>> =>
+  request({
+    url: `${API_BASE_URL}/team/invitations/${encodeURIComponent(invitationId)}`,
+    method: "DELETE",
+    schema: s.unchecked<null>(),
+    errorMessage: "Failed to cancel invitation",
+    signal,
+  });
+
+/**
+ * Update Team Member endpoint - Changes a member's role
+ * PATCH /api/v1/api-users/team/members/{member_id}
+ * @param memberId - The ID of the member
+ * @param role - The new role
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response containing the updated member
+ */
+export const updateTeamMemberRoleEndpoint = async (
+  memberId: string,
+  role: string,
+  signal?: AbortSignal
+): Promise<ApiResponse<TeamMember>> =>
+  request({
+    url: `${API_BASE_URL}/team/members/${encodeURIComponent(memberId)}`,
+    method: "PATCH",
+    body: { role },
+    schema: teamMemberSchema,
+    errorMessage: "Failed to update member",
+    signal,
+  });
+
+/**
+ * Remove Team Member endpoint - Removes a member from the team
+ * DELETE /api/v1/api-users/team/members/{member_id}
+ * @param memberId - The ID of the member to remove
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with API response
  */
+export const removeTeamMemberEndpoint = async (
+  memberId: string,
+  signal?: AbortSignal
+): Promise<ApiResponse<null>> =>
+  request({
+    url: `${API_BASE_URL}/team/members/${encodeURIComponent(memberId)}`,
+    method: "DELETE",
+    schema: s.unchecked<null>(),
+    errorMessage: "Failed to remove member",
+    signal,
+  });
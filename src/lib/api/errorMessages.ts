@@ -0,0 +1,279 @@
+/**
+ * User-facing API Error Messages
+ * Maps any error thrown by the API layer to a consistent message and a
+ * suggested action. All strings live in one catalog so they can be replaced
+ * with a translated one via setErrorMessageCatalog.
+ */
+
+import { ApiError, type ApiErrorKind } from "./endpoints";
+
+/**
+ * What the user can do about an error
+ */
+export type ErrorAction =
+  | "retry"
+  | "login"
+  | "wait"
+  | "check_input"
+  | "upgrade"
+  | "contact_support"
+  | "none";
+
+/**
+ * The operation that failed, used to pick more specific wording
+ */
+export type ErrorContext =
+  | "login"
+  | "register"
+  | "resend_verification"
+  | "forgot_password"
+  | "reset_password"
+  | "two_factor"
+  | "two_factor_setup"
+  | "update_profile"
+  | "change_password"
+  | "sessions"
+  | "revoke_session"
+  | "team"
+  | "invite_member"
+  | "update_team"
+  | "api_keys"
+  | "create_api_key"
+  | "update_api_key"
+  | "rotate_api_key"
+  | "update_budget"
+  | "delete_api_key"
+  | "stats"
+  | "subscription"
+  | "checkout";
+
+/**
+ * A mapped error, ready to render
+ */
+export interface UserFacingError {
+  message: string;
+  action: ErrorAction;
+  // Button label for the action (empty for "none")
+  actionLabel: string;
+  kind: ApiErrorKind;
+}
+
+/**
+ * All user-facing strings. Replace to localize.
+ */
+export interface ErrorMessageCatalog {
+  // Default message per error kind
+  kinds: Record<ApiErrorKind, string>;
+  // Context-specific wording that wins over the kind default
+  contexts: Partial<
+    Record<ErrorContext, Partial<Record<ApiErrorKind, string>>>
+  >;
+  // Messages for backend error codes, which win over everything else
+  codes: Record<string, string>;
+  // Fallback per context when the error is not an ApiError
+  fallbacks: Record<ErrorContext | "default", string>;
+  actions: Record<ErrorAction, string>;
+}
+
+export const defaultErrorMessageCatalog: ErrorMessageCatalog = {
+  kinds: {
+    network:
+      "Network error: Unable to connect to the server. Please check your internet connection.",
+    timeout: "The server took too long to respond. Please try again.",
+    auth: "Session expired. Please log in again.",
+    forbidden: "You don't have permission to do this.",
+    not_found: "The requested resource was not found.",
+    validation: "The request was invalid. Please check your input.",
+    rate_limited: "Too many requests. Please wait a moment and try again.",
+    server: "Server error. Please try again later.",
+    parse: "Invalid response from server. Please try again later.",
+    schema: "Unexpected response from server. Please try again later.",
+    aborted: "The request was cancelled.",
+    http: "Something went wrong. Please try again.",
+    unknown: "An unexpected error occurred. Please try again.",
+  },
+  contexts: {
+    login: {
+      auth: "Invalid email or password.",
+    },
+    register: {
+      validation: "Please check the details you entered.",
+    },
+    reset_password: {
+      not_found: "This reset link is invalid or has expired.",
+      auth: "This reset link is invalid or has expired.",
+    },
+    two_factor: {
+      auth: "Invalid or expired code. Please try again.",
+      validation: "Invalid or expired code. Please try again.",
+    },
+    two_factor_setup: {
+      auth: "Invalid code. Check your authenticator app and try again.",
+      validation: "Invalid code. Check your authenticator app and try again.",
+    },
+    change_password: {
+      auth: "Your current password is incorrect.",
+      forbidden: "Your current password is incorrect.",
+    },
+    invite_member: {
+      validation: "Please enter a valid email address and role.",
+    },
+    // The key limit has its own code (API_KEY_LIMIT_REACHED)
+    create_api_key: {
+      forbidden: "Your role doesn't allow creating API keys.",
+    },
+    rotate_api_key: {
+      not_found: "API key not found. It may have been deleted.",
+      validation: "This key is already being rotated or has expired.",
+    },
+    update_budget: {
+      not_found: "API key not found. It may have been deleted.",
+      validation: "The hard cap must be at least the soft limit.",
+    },
+    delete_api_key: {
+      not_found: "API key not found. It may have already been deleted.",
+    },
+    stats: {
+      not_found: "Stats not found. Please check your filters.",
+    },
+    subscription: {
+      not_found: "Subscription plan not found.",
+    },
+    checkout: {
+      validation:
+        "Invalid request. Please check your subscription plan selection.",
+      not_found: "Subscription plan not found.",
+    },
+  },
+  codes: {
+    API_KEY_LIMIT_REACHED:
+      "You have reached the maximum number of API keys allowed.",
+    INSUFFICIENT_CREDITS:
+      "You have run out of credits. Upgrade your plan to continue.",
+    EMAIL_ALREADY_REGISTERED:
+      "An account with this email already exists. Try logging in instead.",
+    SEAT_LIMIT_REACHED:
+      "All seats on your plan are taken. Upgrade to invite more members.",
+    ALREADY_TEAM_MEMBER: "This person is already on your team.",
+  },
+  fallbacks: {
+    default: "An unexpected error occurred. Please try again.",
+    login: "Login failed. Please check your credentials.",
+    register: "Registration failed. Please try again.",
+    resend_verification: "Failed to resend verification email",
+    forgot_password: "Failed to send reset link. Please try again.",
+    reset_password: "Failed to reset password. Please try again.",
+    two_factor: "Verification failed. Please try again.",
+    two_factor_setup: "Failed to update two-factor authentication",
+    update_profile: "Failed to update profile",
+    change_password: "Failed to change password",
+    sessions: "Failed to fetch sessions",
+    revoke_session: "Failed to sign out session",
+    team: "Failed to fetch team",
+    invite_member: "Failed to send invitation",
+    update_team: "Failed to update team",
+    api_keys: "Failed to fetch API keys",
+    create_api_key: "Failed to create API key",
+    update_api_key: "Failed to update API key",
+    rotate_api_key: "Failed to rotate API key",
+    update_budget: "Failed to update budget",
+    delete_api_key: "Failed to delete API key",
+    stats: "Failed to fetch stats",
+    subscription: "Failed to fetch subscription plan",
+    checkout: "Failed to create checkout",
+  },
+  actions: {
+    retry: "Retry",
+    login: "Log in again",
+    wait: "Try again later",
+    check_input: "Review input",
+    upgrade: "Upgrade plan",
+    contact_support: "Contact support",
+    none: "",
+  },
+};
+
+let catalog = defaultErrorMessageCatalog;
+
+/**
+ * Replaces the message catalog (e.g. with a translated one)
+ */
+export const setErrorMessageCatalog = (next: ErrorMessageCatalog): void => {
+  catalog = next;
+};
+
+const ACTIONS: Record<ApiErrorKind, ErrorAction> = {
+  network: "retry",
+  timeout: "retry",
+  auth: "login",
+  forbidden: "none",
+  not_found: "none",
+  validation: "check_input",
+  rate_limited: "wait",
+  server: "retry",
+  parse: "retry",
+  schema: "contact_support",
+  aborted: "none",
+  http: "none",
+  unknown: "retry",
+};
+
+// Backend codes that call for a different action than their kind
+const CODE_ACTIONS: Record<string, ErrorAction> = {
+  API_KEY_LIMIT_REACHED: "upgrade",
+  INSUFFICIENT_CREDITS: "upgrade",
+};
+
+// Kinds where the server's own message is more useful than a generic one
+const SERVER_MESSAGE_KINDS: ApiErrorKind[] = [
+  "validation",
+  "forbidden",
+  "not_found",
+  "http",
+];
+
+// Message from the error body, only if the server actually sent one
+const serverMessageOf = (error: ApiError): string | undefined => {
+  const { data } = error;
+  if (typeof data === "object" && data !== null && "message" in data) {
+    const { message } = data;
+    return typeof message === "string" && message ? message : undefined;
+  }
+  return undefined;
+};
+
+/**
+ * Maps an error to a user-facing message and suggested action
+ * @param error - Anything thrown by an endpoint function
+ * @param context - The operation that failed, for more specific wording
+ * @returns Message, action and the error kind
+ */
+export const describeApiError = (
+  error: unknown,
+  context?: ErrorContext
+): UserFacingError => {
+  const fallback = catalog.fallbacks[context ?? "default"];
+
+  if (!(error instanceof ApiError)) {
+    return {
+      message:
+        error instanceof Error && error.message ? error.message : fallback,
+      action: "retry",
+      actionLabel: catalog.actions.retry,
+      kind: "unknown",
+    };
+  }
+
+  const { kind, code } = error;
+  const action = (code && CODE_ACTIONS[code]) || ACTIONS[kind];
+  const message =
+    (code && catalog.codes[code]) ||
+    // The server knows best what was wrong with the input
+    (kind === "validation" && serverMessageOf(error)) ||
+    (context && catalog.contexts[context]?.[kind]) ||
+    (SERVER_MESSAGE_KINDS.includes(kind) && error.message) ||
+    catalog.kinds[kind] ||
+    fallback;
+
+  return { message, action, actionLabel: catalog.actions[action], kind };
+};
@@ -0,0 +1,126 @@
+/**
+ * Cached API Queries
+ * Query definitions for the shared query cache. Reads that several pages
+ * share go through these so they are cached, de-duplicated and invalidated
+ * together.
+ */
+
+import {
+  getApiKeyStatsEndpoint,
+  getSubscriptionPlanEndpoint,
+  getTeamEndpoint,
+  getUserProfileEndpoint,
+  listApiKeysEndpoint,
+  listSessionsEndpoint,
+  validateResetTokenEndpoint,
+  type ApiKeyStatsRequest,
+  type ApiKeyStatsResponseData,
+  type ApiResponse,
+  type ListApiKeysResponseData,
+  type ListSessionsResponseData,
+  type OverviewStatsResponseData,
+  type ResetTokenValidationData,
+  type SubscriptionPlan,
+  type TeamResponseData,
+  type User,
+} from "./endpoints";
+import { invalidateQueries, type Query } from "./queryCache";
+
+/**
+ * List of the user's API keys
+ */
+export const apiKeysQuery = (): Query<
+  ApiResponse<ListApiKeysResponseData>
+> => ({
+  key: ["listApiKeys"],
+  fetcher: (signal) => listApiKeysEndpoint(signal),
+});
+
+/**
+ * API key stats for one set of filters (the full request is the cache key)
+ */
+export const apiKeyStatsQuery = (
+  request: ApiKeyStatsRequest
+): Query<ApiResponse<ApiKeyStatsResponseData | OverviewStatsResponseData>> => ({
+  key: ["getApiKeyStats", request],
+  fetcher: (signal) => getApiKeyStatsEndpoint(request, signal),
+});
+
+/**
+ * Signed-in user's profile (credits, role, ...)
+ */
+export const userProfileQuery = (): Query<ApiResponse<User>> => ({
+  key: ["getUserProfile"],
+  fetcher: (signal) => getUserProfileEndpoint(signal),
+});
+
+/**
+ * Validity of a password reset link
+ */
+export const resetTokenQuery = (
+  token: string
+): Query<ApiResponse<ResetTokenValidationData>> => ({
+  key: ["validateResetToken", token],
+  fetcher: (signal) => validateResetTokenEndpoint(token, signal),
+});
+
+/**
+ * Devices the user is signed in on
+ */
+export const sessionsQuery = (): Query<
+  ApiResponse<ListSessionsResponseData>
+> => ({
+  key: ["listSessions"],
+  fetcher: (signal) => listSessionsEndpoint(signal),
+});
+
+/**
+ * Subscription plan of the signed-in user (seats, credits, ...)
+ */
+export const subscriptionPlanQuery = (): Query<
+  ApiResponse<SubscriptionPlan>
+> => ({
+  key: ["getSubscriptionPlan"],
+  fetcher: (signal) => getSubscriptionPlanEndpoint(signal),
+});
+
+/**
+ * Team members and pending invitations
+ */
+export const teamQuery = (): Query<ApiResponse<TeamResponseData>> => ({
+  key: ["getTeam"],
+  fetcher: (signal) => getTeamEndpoint(signal),
+});
+
+/**
+ * Invalidates everything derived from the key list.
+ * Call after creating or deleting an API key.
+ */
+export const invalidateApiKeyQueries = (): void => {
+  invalidateQueries("listApiKeys");
+  invalidateQueries("getApiKeyStats");
+};
+
+/**
+ * Invalidates the user profile.
+ * Call after anything that changes credits, e.g. a subscription payment.
+ */
+export const invalidateUserProfile = (): void => {
+  invalidateQueries("getUserProfile");
+};
+
+/**
+ * Invalidates the active sessions list.
+ * Call after revoking a session.
+ */
+export const invalidateSessions = (): void => {
+  invalidateQueries("listSessions");
+};
+
+/**
+ * Invalidates the team list.
+ * Call after inviting, updating or removing members.
+ */
+export const invalidateTeam = (): void => {
+  invalidateQueries("getTeam");
+};
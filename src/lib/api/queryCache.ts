@@ -0,0 +1,198 @@
+/**
+ * Query Cache
+ * Shared in-memory cache for API reads with stale-while-revalidate semantics.
+ * Entries are keyed by endpoint + params. Cached data is served instantly
+ * while a background refetch brings it up to date, and concurrent fetches of
+ * the same key share a single request.
+ */
+
+// [endpoint name, params] - params must be JSON serializable
+export type QueryKey = readonly [endpoint: string, params?: unknown];
+
+/**
+ * A cacheable read: its key and the function that loads it
+ */
+export interface Query<T> {
+  key: QueryKey;
+  fetcher: (signal: AbortSignal) => Promise<T>;
+}
+
+/**
+ * Snapshot of a cache entry as seen by components
+ */
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  isFetching: boolean;
+  // Time of the last successful fetch (0 = never fetched or invalidated)
+  updatedAt: number;
+}
+
+interface QueryEntry {
+  endpoint: string;
+  state: QueryState<unknown>;
+  promise?: Promise<unknown>;
+  controller?: AbortController;
+  subscribers: Set<() => void>;
+}
+
+// How long fetched data counts as fresh before it is revalidated
+export const DEFAULT_STALE_TIME = 30_000;
+
+const entries = new Map<string, QueryEntry>();
+
+export const hashQueryKey = (key: QueryKey): string => JSON.stringify(key);
+
+const getEntry = (key: QueryKey): QueryEntry => {
+  const hash = hashQueryKey(key);
+  let entry = entries.get(hash);
+  if (!entry) {
+    entry = {
+      endpoint: key[0],
+      state: {
+        data: undefined,
+        error: undefined,
+        isFetching: false,
+        updatedAt: 0,
+      },
+      subscribers: new Set(),
+    };
+    entries.set(hash, entry);
+  }
+  return entry;
+};
+
+// Replaces the snapshot (so React sees a new reference) and notifies subscribers
+const update = (entry: QueryEntry, patch: Partial<QueryState<unknown>>) => {
+  entry.state = { ...entry.state, ...patch };
+  entry.subscribers.forEach((listener) => listener());
+};
+
+// Cancels an in-flight fetch without recording an error
+const cancelFetch = (entry: QueryEntry) => {
+  entry.controller?.abort();
+  entry.controller = undefined;
+  entry.promise = undefined;
+};
+
+/**
+ * Fetches a query unless fresh data is cached. Concurrent calls for the same
+ * key are de-duplicated.
+ * @param query - Query key and fetcher
+ * @param options.force - Fetch even if the cached data is still fresh
+ * @param options.staleTime - How long data counts as fresh (ms)
+ * @returns Promise with the (possibly cached) data
+ */
+export const fetchQuery = <T>(
+  query: Query<T>,
+  {
+    force = false,
+    staleTime = DEFAULT_STALE_TIME,
+  }: { force?: boolean; staleTime?: number } = {}
+): Promise<T> => {
+  const entry = getEntry(query.key);
+
+  if (entry.promise) {
+    return entry.promise as Promise<T>;
+  }
+
+  const { updatedAt, error, data } = entry.state;
+  if (
+    !force &&
+    updatedAt > 0 &&
+    error === undefined &&
+    Date.now() - updatedAt < staleTime
+  ) {
+    return Promise.resolve(data as T);
+  }
+
+  const controller = new AbortController();
+  const promise = query.fetcher(controller.signal).then(
+    (result) => {
+      if (entry.controller === controller) {
+        cancelFetch(entry);
+        update(entry, {
+          data: result,
+          error: undefined,
+          isFetching: false,
+          updatedAt: Date.now(),
+        });
+      }
+      return result;
+    },
+    (fetchError: unknown) => {
+      if (entry.controller === controller) {
+        cancelFetch(entry);
+        update(entry, { error: fetchError, isFetching: false });
+      }
+      throw fetchError;
+    }
+  );
+
+  entry.controller = controller;
+  entry.promise = promise;
+  update(entry, { isFetching: true });
+  return promise;
+};
+
+/**
+ * Current snapshot for a key
+ */
+export const getQueryState = <T>(key: QueryKey): QueryState<T> =>
+  getEntry(key).state as QueryState<T>;
+
+/**
+ * Subscribes to changes of a key. When the last subscriber leaves while a
+ * fetch is in flight, that fetch is aborted - nobody is waiting for it.
+ * @returns Unsubscribe function
+ */
+export const subscribeQuery = (
+  key: QueryKey,
+  listener: () => void
+): (() => void) => {
+  const entry = getEntry(key);
+  entry.subscribers.add(listener);
+  return () => {
+    entry.subscribers.delete(listener);
+    if (entry.subscribers.size === 0 && entry.promise) {
+      cancelFetch(entry);
+      entry.state = { ...entry.state, isFetching: false };
+    }
+  };
+};
+
+/**
+ * Marks every query of an endpoint as stale. Mounted components refetch
+ * immediately; others refetch the next time they mount.
+ * @param endpoint - Endpoint name used as the first element of the query key
+ */
+export const invalidateQueries = (endpoint: string): void => {
+  entries.forEach((entry) => {
+    if (entry.endpoint === endpoint) {
+      // Results of a fetch started before the mutation may already be outdated
+      cancelFetch(entry);
+      update(entry, { isFetching: false, updatedAt: 0 });
+    }
+  });
+};
+
+/**
+ * Drops every cached result (e.g. on logout). Entries that components are
+ * subscribed to are reset rather than removed, so those components are
+ * notified and refetch instead of keeping the previous user's data.
+ */
+export const clearQueryCache = (): void => {
+  entries.forEach((entry, hash) => {
+    cancelFetch(entry);
+    if (entry.subscribers.size === 0) {
+      entries.delete(hash);
+      return;
+    }
+    update(entry, {
+      data: undefined,
+      error: undefined,
+      isFetching: false,
+      updatedAt: 0,
+    });
+  });
+};
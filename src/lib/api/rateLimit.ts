@@ -0,0 +1,112 @@
+/**
+ * Rate Limit Store
+ * Tracks the per-key request quota reported by the backend in rate-limit
+ * headers, and whether requests are currently blocked by a 429.
+ */
+
+/**
+ * Quota from the latest response's rate-limit headers
+ */
+export interface RateLimitInfo {
+  limit: number | null;
+  remaining: number | null;
+  // When the quota window resets (epoch ms)
+  resetAt: number | null;
+}
+
+export interface RateLimitState {
+  info: RateLimitInfo | null;
+  // Set after a 429 until the quota resets (epoch ms)
+  blockedUntil: number | null;
+}
+
+// Wait used after a 429 that carries neither Retry-After nor a reset header
+const DEFAULT_BLOCK_MS = 60_000;
+
+let state: RateLimitState = { info: null, blockedUntil: null };
+const listeners = new Set<() => void>();
+
+const setState = (next: RateLimitState) => {
+  state = next;
+  listeners.forEach((listener) => listener());
+};
+
+// First header present among `names`, parsed as a number
+const numericHeader = (headers: Headers, ...names: string[]): number | null => {
+  for (const name of names) {
+    const value = headers.get(name);
+    if (value !== null && value.trim() !== "" && !Number.isNaN(Number(value))) {
+      return Number(value);
+    }
+  }
+  return null;
+};
+
+/**
+ * Reads rate-limit headers (`X-RateLimit-*` or `RateLimit-*`, plus
+ * `Retry-After` on 429) from a response
+ * @returns Parsed quota, or null when the response has no such headers
+ */
+export const parseRateLimit = (response: Response): RateLimitInfo | null => {
+  const { headers } = response;
+  const limit = numericHeader(headers, "X-RateLimit-Limit", "RateLimit-Limit");
+  const remaining = numericHeader(
+    headers,
+    "X-RateLimit-Remaining",
+    "RateLimit-Remaining"
+  );
+  let resetAt: number | null = null;
+
+  const reset = numericHeader(headers, "X-RateLimit-Reset", "RateLimit-Reset");
+  if (reset !== null) {
+    // Large values are epoch seconds, small ones are seconds from now
+    resetAt = reset > 1_000_000_000 ? reset * 1000 : Date.now() + reset * 1000;
+  }
+
+  const retryAfter = headers.get("Retry-After");
+  if (response.status === 429 && retryAfter) {
+    const seconds = Number(retryAfter);
+    const retryAt = Number.isNaN(seconds)
+      ? Date.parse(retryAfter)
+      : Date.now() + seconds * 1000;
+    if (!Number.isNaN(retryAt)) {
+      resetAt = Math.max(resetAt ?? 0, retryAt);
+    }
+  }
+
+  if (limit === null && remaining === null && resetAt === null) {
+    return null;
+  }
+  return { limit, remaining, resetAt };
+};
+
+/**
+ * Records the quota from a response. A 429 blocks until the reset time.
+ * @returns The parsed quota (null when the response had none)
+ */
+export const recordRateLimit = (response: Response): RateLimitInfo | null => {
+  const info = parseRateLimit(response);
+  if (response.status === 429) {
+    setState({
+      info: info ?? state.info,
+      blockedUntil: info?.resetAt ?? Date.now() + DEFAULT_BLOCK_MS,
+    });
+  } else if (info) {
+    // Only a successful response, or the reset time passing, lifts a block;
+    // errors like 401 or 5xx say nothing about the quota
+    const isBlockOver =
+      response.ok ||
+      (state.blockedUntil !== null && Date.now() >= state.blockedUntil);
+    setState({ info, blockedUntil: isBlockOver ? null : state.blockedUntil });
+  }
+  return info;
+};
+
+export const getRateLimitState = (): RateLimitState => state;
+
+export const subscribeRateLimit = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
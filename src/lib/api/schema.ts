@@ -0,0 +1,136 @@
+/**
+ * Response Schemas
+ * Lightweight runtime validators for API payloads. A schema checks an unknown
+ * value and returns it typed, or throws a SchemaError naming the first field
+ * that does not match.
+ */
+
+/**
+ * Error thrown when a payload does not match its schema
+ */
+export class SchemaError extends Error {
+  path: string;
+
+  constructor(message: string, path: string) {
+    super(`${path}: ${message}`);
+    this.name = "SchemaError";
+    this.path = path;
+    Object.setPrototypeOf(this, SchemaError.prototype);
+  }
+}
+
+/**
+ * A schema validates `value` (found at `path`) and returns it as `T`
+ */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+// Human readable type of a value for error messages
+const describe = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+};
+
+const primitive =
+  <T>(type: "string" | "number" | "boolean"): Schema<T> =>
+  (value, path) => {
+    if (typeof value !== type) {
+      throw new SchemaError(`expected ${type}, got ${describe(value)}`, path);
+    }
+    return value as T;
+  };
+
+export const string = primitive<string>("string");
+export const number = primitive<number>("number");
+export const boolean = primitive<boolean>("boolean");
+
+/**
+ * Accepts any value without checking it. Use for payloads the UI ignores.
+ */
+export const unchecked =
+  <T>(): Schema<T> =>
+  (value) =>
+    value as T;
+
+/**
+ * Accepts one of the given literals (strings, numbers or booleans)
+ */
+export const literal =
+  <T extends string | number | boolean>(...values: T[]): Schema<T> =>
+  (value, path) => {
+    if (!values.includes(value as T)) {
+      throw new SchemaError(
+        `expected one of ${values.join(", ")}, got ${String(value)}`,
+        path
+      );
+    }
+    return value as T;
+  };
+
+export const nullable =
+  <T>(schema: Schema<T>): Schema<T | null> =>
+  (value, path) =>
+    value === null ? null : schema(value, path);
+
+export const optional =
+  <T>(schema: Schema<T>): Schema<T | undefined> =>
+  (value, path) =>
+    value === undefined ? undefined : schema(value, path);
+
+export const array =
+  <T>(item: Schema<T>): Schema<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new SchemaError(`expected array, got ${describe(value)}`, path);
+    }
+    value.forEach((entry, index) => item(entry, `${path}[${index}]`));
+    return value as T[];
+  };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Object whose values all match `item` (e.g. credits keyed by type)
+ */
+export const record =
+  <T>(item: Schema<T>): Schema<{ [key: string]: T }> =>
+  (value, path) => {
+    if (!isPlainObject(value)) {
+      throw new SchemaError(`expected object, got ${describe(value)}`, path);
+    }
+    Object.entries(value).forEach(([key, entry]) =>
+      item(entry, `${path}.${key}`)
+    );
+    return value as { [key: string]: T };
+  };
+
+/**
+ * Object schema. Only the listed fields are checked - list the fields the UI
+ * relies on. Unlisted fields are passed through untouched.
+ */
+export const object =
+  <T extends object>(shape: { [K in keyof T]?: Schema<T[K]> }): Schema<T> =>
+  (value, path) => {
+    if (!isPlainObject(value)) {
+      throw new SchemaError(`expected object, got ${describe(value)}`, path);
+    }
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      shape[key]?.(value[key], `${path}.${key}`);
+    }
+    return value as T;
+  };
+
+/**
+ * Accepts a value matching either schema (tried in order)
+ */
+export const union =
+  <A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B> =>
+  (value, path) => {
+    try {
+      return first(value, path);
+    } catch (error) {
+      if (!(error instanceof SchemaError)) throw error;
+      return second(value, path);
+    }
+  };
@@ -0,0 +1,67 @@
+import {
+  useCallback,
+  useEffect,
+  useEffectEvent,
+  useSyncExternalStore,
+} from "react";
+import {
+  DEFAULT_STALE_TIME,
+  fetchQuery,
+  getQueryState,
+  hashQueryKey,
+  subscribeQuery,
+  type Query,
+} from "./queryCache";
+
+interface UseQueryOptions {
+  // Set to false to skip fetching (e.g. until a key is selected)
+  enabled?: boolean;
+  staleTime?: number;
+}
+
+/**
+ * Reads a query from the shared cache, fetching it when missing or stale.
+ * Cached data is returned immediately and revalidated in the background.
+ * @returns data, error, loading flags and a refetch function
+ */
+export function useQuery<T>(
+  query: Query<T>,
+  { enabled = true, staleTime = DEFAULT_STALE_TIME }: UseQueryOptions = {}
+) {
+  const hash = hashQueryKey(query.key);
+
+  // Re-subscribe only when the key's value changes, not its identity
+  const subscribe = useCallback(
+    (listener: () => void) => subscribeQuery(JSON.parse(hash), listener),
+    [hash]
+  );
+  const state = useSyncExternalStore(subscribe, () =>
+    getQueryState<T>(query.key)
+  );
+
+  const revalidate = useEffectEvent(() => {
+    // Errors are exposed through `state.error`
+    fetchQuery(query, { staleTime }).catch(() => undefined);
+  });
+
+  const isInvalidated = state.updatedAt === 0;
+  useEffect(() => {
+    if (enabled) {
+      revalidate();
+    }
+  }, [hash, enabled, isInvalidated]);
+
+  const refetch = () => fetchQuery(query, { force: true });
+
+  return {
+    data: state.data,
+    error: state.error,
+    isFetching: state.isFetching,
+    // No data to show yet for this key
+    isLoading:
+      enabled &&
+      state.data === undefined &&
+      (state.isFetching || state.error === undefined),
+    refetch,
+  };
+}
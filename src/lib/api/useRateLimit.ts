@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from "react";
+import { getRateLimitState, subscribeRateLimit } from "./rateLimit";
+
+/**
+ * Latest rate-limit quota and the time requests are blocked until (if any)
+ */
+export function useRateLimit() {
+  return useSyncExternalStore(subscribeRateLimit, getRateLimitState);
+}
@@ -0,0 +1,17 @@
+import type { Permission } from "./permissions";
+import { usePermission } from "./useSession";
+
+/**
+ * Renders its children only when the signed-in user has the permission
+ */
+export function Can({
+  permission,
+  fallback = null,
+  children,
+}: {
+  permission: Permission;
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  return usePermission(permission) ? <>{children}</> : <>{fallback}</>;
+}
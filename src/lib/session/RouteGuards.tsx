@@ -0,0 +1,35 @@
+import { Navigate } from "react-router-dom";
+import { hasPermission, parseRole, type Permission } from "./permissions";
+import { useSession } from "./useSession";
+
+/**
+ * Sends signed-out users to /login
+ */
+export function PrivateRoute({ children }: { children: React.ReactNode }) {
+  const { isAuthenticated } = useSession();
+  return isAuthenticated ? <>{children}</> : <Navigate to="/login" replace />;
+}
+
+/**
+ * Sends users whose role lacks the permission back to the dashboard.
+ * Use inside PrivateRoute.
+ */
+export function RequirePermission({
+  permission,
+  children,
+}: {
+  permission: Permission;
+  children: React.ReactNode;
+}) {
+  // Same source as usePermission, so links and routes agree
+  const user = useSession().session?.user;
+  // Wait for the profile rather than redirecting on a missing role
+  if (!user) {
+    return null;
+  }
+  return hasPermission(parseRole(user.role), permission) ? (
+    <>{children}</>
+  ) : (
+    <Navigate to="/dashboard" replace />
+  );
+}
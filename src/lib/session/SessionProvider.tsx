@@ -0,0 +1,69 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { logoutEndpoint } from "@/lib/api/endpoints";
+import { userProfileQuery } from "@/lib/api/queries";
+import { useQuery } from "@/lib/api/useQuery";
+import {
+  clearSession,
+  getSession,
+  reloadSession,
+  setSessionUser,
+  subscribeSession,
+  withLogoutLock,
+} from "./session";
+import { SessionContext } from "./useSession";
+import { useTokenRefreshScheduler } from "./useTokenRefreshScheduler";
+
+/**
+ * Revokes the refresh token on the server, then ends the local session.
+ * The local session always ends, even offline or when the server call fails.
+ * When several tabs log out at once (e.g. all of them going idle), only the
+ * first one calls the server; the others pick up its logout from storage.
+ */
+const logout = (): Promise<void> =>
+  withLogoutLock(async () => {
+    reloadSession();
+    if (!getSession()) {
+      return;
+    }
+    if (navigator.onLine) {
+      try {
+        await logoutEndpoint();
+      } catch (error) {
+        // The refresh token stays valid until it expires
+        console.warn("Server-side logout failed:", error);
+      }
+    }
+    clearSession();
+  });
+
+/**
+ * Provides the session store to useSession/useCurrentUser, keeps the access
+ * token refreshed in the background and the session's user in sync with the
+ * profile endpoint
+ */
+export function SessionProvider({ children }: { children: React.ReactNode }) {
+  const session = useSyncExternalStore(subscribeSession, getSession);
+  useTokenRefreshScheduler(session);
+
+  const isAuthenticated = session !== null;
+  const profile = useQuery(userProfileQuery(), { enabled: isAuthenticated })
+    .data?.data;
+  // Persist the fresh profile so permissions and the next page load use it
+  useEffect(() => {
+    if (profile) {
+      setSessionUser(profile);
+    }
+  }, [profile]);
+
+  return (
+    <SessionContext
+      value={{
+        session,
+        isAuthenticated,
+        logout,
+      }}
+    >
+      {children}
+    </SessionContext>
+  );
+}
@@ -0,0 +1,60 @@
+/**
+ * Roles & Permissions
+ * Maps User.role to what the dashboard lets the user do. The server enforces
+ * the same rules; this only hides actions that would be refused.
+ */
+
+export type Role = "owner" | "admin" | "developer" | "viewer";
+
+export type Permission =
+  | "billing:manage"
+  | "api_keys:view"
+  | "api_keys:create"
+  | "api_keys:edit"
+  | "api_keys:delete"
+  | "team:manage";
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  owner: [
+    "billing:manage",
+    "api_keys:view",
+    "api_keys:create",
+    "api_keys:edit",
+    "api_keys:delete",
+    "team:manage",
+  ],
+  admin: [
+    "api_keys:view",
+    "api_keys:create",
+    "api_keys:edit",
+    "api_keys:delete",
+    "team:manage",
+  ],
+  developer: ["api_keys:view", "api_keys:create", "api_keys:edit"],
+  viewer: [],
+};
+
+// Roles that can be given to members; ownership is not transferable here
+export const ASSIGNABLE_ROLES: readonly Role[] = [
+  "admin",
+  "developer",
+  "viewer",
+];
+
+/**
+ * Reads a role from User.role. Self-service accounts ("user") own themselves;
+ * unknown roles get the least access.
+ */
+export const parseRole = (role: string | null | undefined): Role => {
+  const normalized = role?.trim().toLowerCase();
+  if (normalized === "user") {
+    return "owner";
+  }
+  // Own keys only, so names like "constructor" are not taken for roles
+  return normalized && Object.hasOwn(ROLE_PERMISSIONS, normalized)
+    ? (normalized as Role)
+    : "viewer";
+};
+
+export const hasPermission = (role: Role, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role].includes(permission);
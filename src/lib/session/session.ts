@@ -0,0 +1,292 @@
+/**
+ * Session Store
+ * Single owner of the signed-in session: tokens, their expiry and the cached
+ * user. This is the only module that reads or writes the session keys in
+ * localStorage; everything else goes through these functions or the
+ * useSession/useCurrentUser hooks.
+ * Logins, token refreshes and logouts in other tabs are picked up through
+ * `storage` events, so every tab shares one session.
+ */
+
+import type { RefreshTokenResponseData, User } from "@/lib/api/endpoints";
+import { clearQueryCache } from "@/lib/api/queryCache";
+
+/**
+ * The signed-in session
+ */
+export interface Session {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: string;
+  // When the current tokens were issued (epoch ms)
+  issuedAt: number;
+  // When the access token expires (epoch ms)
+  expiresAt: number;
+  // When the refresh token expires (epoch ms)
+  refreshExpiresAt: number;
+  // Last known user data (null until the first login or profile fetch)
+  user: User | null;
+}
+
+// localStorage keys that make up a persisted session
+const STORAGE_KEYS = {
+  accessToken: "access_token",
+  refreshToken: "refresh_token",
+  tokenType: "token_type",
+  expiresIn: "expires_in",
+  refreshExpiresIn: "refresh_expires_in",
+  tokenTimestamp: "token_timestamp",
+  user: "userData",
+  // Last user activity in any tab, for the idle timeout
+  lastActivity: "last_activity",
+} as const;
+
+// Keys written by older versions of the app
+const LEGACY_KEYS = ["userEmail", "userId"];
+// Older versions kept the plaintext password in sessionStorage
+const LEGACY_SESSION_KEYS = ["userPassword"];
+
+/**
+ * Removes data left behind by older versions of the app. Runs at startup and
+ * on logout.
+ */
+const removeLegacyKeys = (): void => {
+  LEGACY_KEYS.forEach((key) => localStorage.removeItem(key));
+  LEGACY_SESSION_KEYS.forEach((key) => sessionStorage.removeItem(key));
+};
+
+const readUser = (): User | null => {
+  const storedUser = localStorage.getItem(STORAGE_KEYS.user);
+  if (!storedUser) {
+    return null;
+  }
+  try {
+    return JSON.parse(storedUser);
+  } catch (error) {
+    console.error("Error parsing user data:", error);
+    return null;
+  }
+};
+
+/**
+ * Restores the session from localStorage (null when there is none)
+ */
+const readSession = (): Session | null => {
+  const accessToken = localStorage.getItem(STORAGE_KEYS.accessToken);
+  const refreshToken = localStorage.getItem(STORAGE_KEYS.refreshToken);
+  if (!accessToken || !refreshToken) {
+    return null;
+  }
+
+  const issuedAt = Number(localStorage.getItem(STORAGE_KEYS.tokenTimestamp));
+  const expiresIn = Number(localStorage.getItem(STORAGE_KEYS.expiresIn));
+  const refreshExpiresIn = Number(
+    localStorage.getItem(STORAGE_KEYS.refreshExpiresIn)
+  );
+
+  return {
+    accessToken,
+    refreshToken,
+    tokenType: localStorage.getItem(STORAGE_KEYS.tokenType) || "Bearer",
+    issuedAt: issuedAt || 0,
+    // Missing or corrupt values count as already expired
+    expiresAt: issuedAt + expiresIn * 1000 || 0,
+    refreshExpiresAt: issuedAt + refreshExpiresIn * 1000 || 0,
+    user: readUser(),
+  };
+};
+
+/**
+ * Why the last session ended: signed out by the user, or expired because the
+ * tokens could not be refreshed
+ */
+export type SessionEndReason = "logout" | "expired";
+
+removeLegacyKeys();
+
+let session: Session | null = readSession();
+let endReason: SessionEndReason | null = null;
+const listeners = new Set<() => void>();
+
+const setSession = (next: Session | null) => {
+  session = next;
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Current session snapshot (null when signed out)
+ */
+export const getSession = (): Session | null => session;
+
+export const getAccessToken = (): string | null =>
+  session?.accessToken ?? null;
+
+export const getRefreshToken = (): string | null =>
+  session?.refreshToken ?? null;
+
+/**
+ * Whether the access token is missing or expired
+ */
+export const isAccessTokenExpired = (now: number = Date.now()): boolean =>
+  !session || now >= session.expiresAt;
+
+/**
+ * Stores tokens from a login or refresh response. A user in the response
+ * replaces the cached one.
+ */
+export const saveTokens = (
+  tokens: RefreshTokenResponseData & { user?: User }
+): void => {
+  const issuedAt = Date.now();
+  localStorage.setItem(STORAGE_KEYS.accessToken, tokens.access_token);
+  localStorage.setItem(STORAGE_KEYS.refreshToken, tokens.refresh_token);
+  localStorage.setItem(STORAGE_KEYS.tokenType, tokens.token_type);
+  localStorage.setItem(STORAGE_KEYS.expiresIn, tokens.expires_in.toString());
+  localStorage.setItem(
+    STORAGE_KEYS.refreshExpiresIn,
+    tokens.refresh_expires_in.toString()
+  );
+  if (tokens.user) {
+    localStorage.setItem(STORAGE_KEYS.user, JSON.stringify(tokens.user));
+  }
+  // Written last: other tabs reload the session when it changes
+  localStorage.setItem(STORAGE_KEYS.tokenTimestamp, issuedAt.toString());
+
+  setSession({
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token,
+    tokenType: tokens.token_type,
+    issuedAt,
+    expiresAt: issuedAt + tokens.expires_in * 1000,
+    refreshExpiresAt: issuedAt + tokens.refresh_expires_in * 1000,
+    user: tokens.user ?? session?.user ?? null,
+  });
+};
+
+/**
+ * Replaces the cached user (e.g. with a freshly fetched profile)
+ */
+export const setSessionUser = (user: User): void => {
+  const serialized = JSON.stringify(user);
+  // Refetches usually return the same profile
+  if (!session || localStorage.getItem(STORAGE_KEYS.user) === serialized) {
+    return;
+  }
+  localStorage.setItem(STORAGE_KEYS.user, serialized);
+  setSession({ ...session, user });
+};
+
+/**
+ * Why the last session in this tab ended (null if none ended yet)
+ */
+export const getSessionEndReason = (): SessionEndReason | null => endReason;
+
+/**
+ * Records user activity, shared by all tabs so an idle tab doesn't log out an
+ * active user
+ */
+export const recordActivity = (at: number): void => {
+  localStorage.setItem(STORAGE_KEYS.lastActivity, at.toString());
+};
+
+/**
+ * Last activity recorded in any tab (epoch ms, 0 if none)
+ */
+export const getLastActivity = (): number =>
+  Number(localStorage.getItem(STORAGE_KEYS.lastActivity)) || 0;
+
+/**
+ * Signs out locally: removes the persisted session and drops cached API data
+ * so the next user never sees it
+ * @param reason - Shown on the login page when "expired"
+ */
+export const clearSession = (reason: SessionEndReason = "logout"): void => {
+  endReason = reason;
+  Object.values(STORAGE_KEYS).forEach((key) => localStorage.removeItem(key));
+  removeLegacyKeys();
+  clearQueryCache();
+  setSession(null);
+};
+
+/**
+ * Re-reads the session from localStorage, picking up changes made by other
+ * tabs that this tab has not been notified of yet
+ */
+export const reloadSession = (): void => {
+  const next = readSession();
+  if (!next) {
+    if (session) {
+      clearQueryCache();
+      setSession(null);
+    }
+    return;
+  }
+  // Cached data belongs to whoever was signed in before
+  if (session?.user && next.user && session.user.id !== next.user.id) {
+    clearQueryCache();
+  }
+  setSession(next);
+};
+
+// Lock names shared by all tabs of the app
+const REFRESH_LOCK = "zcoded-session-refresh";
+const LOGOUT_LOCK = "zcoded-session-logout";
+
+/**
+ * Runs `task` while holding a lock shared by all tabs. Falls back to running
+ * it directly in browsers without the Web Locks API.
+ */
+const withLock = async <T>(
+  name: string,
+  task: () => Promise<T>
+): Promise<T> => {
+  if (!navigator.locks) {
+    return task();
+  }
+  let result!: T;
+  await navigator.locks.request(name, async () => {
+    result = await task();
+  });
+  return result;
+};
+
+/**
+ * Runs `task` so only one tab refreshes the tokens at a time
+ */
+export const withRefreshLock = <T>(task: () => Promise<T>): Promise<T> =>
+  withLock(REFRESH_LOCK, task);
+
+/**
+ * Runs `task` so only one tab logs out at a time. A separate lock from
+ * refreshes, since the logout request may itself need a refresh.
+ */
+export const withLogoutLock = <T>(task: () => Promise<T>): Promise<T> =>
+  withLock(LOGOUT_LOCK, task);
+
+// Follow logins, refreshes and logouts made in other tabs
+window.addEventListener("storage", (event) => {
+  if (event.storageArea !== localStorage) {
+    return;
+  }
+  if (
+    // localStorage.clear()
+    event.key === null ||
+    // clearSession removes the access token first
+    (event.key === STORAGE_KEYS.accessToken && event.newValue === null) ||
+    event.key === STORAGE_KEYS.tokenTimestamp ||
+    event.key === STORAGE_KEYS.user
+  ) {
+    reloadSession();
+  }
+});
+
+/**
+ * Subscribes to session changes (login, refresh, logout)
+ * @returns Unsubscribe function
+ */
+export const subscribeSession = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,49 @@
+import { createContext, useContext } from "react";
+import type { User } from "@/lib/api/endpoints";
+import { userProfileQuery } from "@/lib/api/queries";
+import { useQuery } from "@/lib/api/useQuery";
+import { hasPermission, parseRole, type Permission } from "./permissions";
+import type { Session } from "./session";
+
+export interface SessionContextValue {
+  session: Session | null;
+  isAuthenticated: boolean;
+  // Revokes the session on the server and ends it locally; signed-in routes
+  // then redirect to /login
+  logout: () => Promise<void>;
+}
+
+export const SessionContext = createContext<SessionContextValue | null>(null);
+
+/**
+ * The current session and session actions. Must be used inside SessionProvider.
+ */
+export function useSession(): SessionContextValue {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error("useSession must be used within a SessionProvider");
+  }
+  return context;
+}
+
+/**
+ * The signed-in user, kept fresh from the profile endpoint. Returns the cached
+ * user from the session until the profile has loaded.
+ */
+export function useCurrentUser(): User | null {
+  const { session, isAuthenticated } = useSession();
+  // Revalidates a stale profile on mount; SessionProvider stores the result
+  const profileQuery = useQuery(userProfileQuery(), {
+    enabled: isAuthenticated,
+  });
+  return profileQuery.data?.data ?? session?.user ?? null;
+}
+
+/**
+ * Whether the signed-in user's role grants a permission. False until the user
+ * is known. Reads the session's user only, so it is cheap to call per row.
+ */
+export function usePermission(permission: Permission): boolean {
+  const user = useSession().session?.user;
+  return !!user && hasPermission(parseRole(user.role), permission);
+}
@@ -0,0 +1,60 @@
+import { useEffect } from "react";
+import { refreshSession } from "@/lib/api/endpoints";
+import { getSession, type Session } from "./session";
+
+// Refresh this long before the access token expires (at most half its lifetime)
+const REFRESH_MARGIN_MS = 60_000;
+
+// Once the refresh token has less than this left, stop refreshing and ask the
+// user to log in again instead
+export const REAUTH_WINDOW_MS = 5 * 60_000;
+
+// Longest delay setTimeout supports; larger values fire immediately
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+// Backoff for retrying a refresh that failed transiently (network, 5xx, ...)
+const RETRY_BASE_DELAY_MS = 5_000;
+const RETRY_MAX_DELAY_MS = 5 * 60_000;
+
+/**
+ * Refreshes the access token shortly before it expires, so requests never wait
+ * for a refresh. Reschedules whenever the tokens change (in any tab).
+ */
+export function useTokenRefreshScheduler(session: Session | null) {
+  const issuedAt = session?.issuedAt;
+  const expiresAt = session?.expiresAt;
+  const refreshExpiresAt = session?.refreshExpiresAt;
+
+  useEffect(() => {
+    if (!issuedAt || !expiresAt || !refreshExpiresAt) return;
+
+    const margin = Math.min(REFRESH_MARGIN_MS, (expiresAt - issuedAt) / 2);
+    const refreshAt = expiresAt - margin;
+    // Near the end of the refresh token the user is prompted to log in again
+    if (refreshAt >= refreshExpiresAt - REAUTH_WINDOW_MS) return;
+
+    // Very long-lived tokens are refreshed early rather than in a loop
+    const delay = Math.min(
+      MAX_TIMEOUT_MS,
+      Math.max(0, refreshAt - Date.now())
+    );
+    let attempt = 0;
+    let isCancelled = false;
+    const refresh = () => {
+      refreshSession().catch(() => {
+        // A rejected refresh token has ended the session; otherwise the
+        // failure was transient and the refresh is retried with backoff
+        if (isCancelled || !getSession()) return;
+        timer = setTimeout(
+          refresh,
+          Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt++)
+        );
+      });
+    };
+    let timer = setTimeout(refresh, delay);
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, [issuedAt, expiresAt, refreshExpiresAt]);
+}
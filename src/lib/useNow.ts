@@ -0,0 +1,16 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Current time, updated every intervalMs so time-relative UI stays correct
+ * on a page that is left open
+ */
+export function useNow(intervalMs: number = 60_000): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
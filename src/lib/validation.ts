@@ -0,0 +1,49 @@
+/**
+ * Form Validation Helpers
+ * Client-side checks shared by the auth forms. The server validates again;
+ * these only give faster feedback.
+ */
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Minimum password length accepted by the backend
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const isValidEmail = (email: string): boolean =>
+  EMAIL_PATTERN.test(email.trim());
+
+/**
+ * Lists the password rules a password does not meet yet
+ * @returns Human-readable problems (empty when the password is acceptable)
+ */
+export const getPasswordIssues = (password: string): string[] => {
+  const issues: string[] = [];
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    issues.push(`At least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  if (!/[a-z]/.test(password) || !/[A-Z]/.test(password)) {
+    issues.push("Upper- and lowercase letters");
+  }
+  if (!/\d/.test(password)) {
+    issues.push("At least one number");
+  }
+  return issues;
+};
+
+export type PasswordStrength = "weak" | "fair" | "good" | "strong";
+
+/**
+ * Rough password strength for the strength meter. Passwords that fail
+ * getPasswordIssues are always "weak".
+ */
+export const getPasswordStrength = (password: string): PasswordStrength => {
+  if (getPasswordIssues(password).length > 0) {
+    return "weak";
+  }
+  let score = 0;
+  if (password.length >= 12) score++;
+  if (password.length >= 16) score++;
+  if (/[^A-Za-z0-9]/.test(password)) score++;
+  if (score >= 2) return "strong";
+  return score === 1 ? "good" : "fair";
+};